@@ -1,100 +1,215 @@
-export type AnthropicContentBlock =
-  | { type: "text"; text: string }
-  | {
-      type: "image";
-      source: {
-        type: "base64";
-        media_type: string;
-        data: string;
-      };
-    };
-
-export interface AnthropicMessage {
-  role: "system" | "user" | "assistant";
-  content: string | AnthropicContentBlock[];
+import {
+  LlmApiError,
+  createStreamProgress,
+  readSseData,
+  type LlmCompletion,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmUsage,
+} from "./llm-provider";
+import { fixtureFetch } from "./http-fixtures";
+import { parseRetryAfterMs } from "./retry";
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
 }
 
 interface AnthropicResponse {
-  content?: Array<{ type: string; text?: string }>;
+  content?: Array<{ type: string; text?: string; input?: unknown }>;
   type?: string;
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  content_block?: { type?: string };
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
   error?: { type?: string; message?: string };
 }
 
 export const MODEL = "claude-opus-4-6" as const;
-export const MODELS = {
-  generator: MODEL,
-  judge: MODEL,
-} as const;
-
-export async function callAnthropic(
-  messages: AnthropicMessage[],
-  apiKey: string,
-  _model: string = MODEL,
-  options?: { maxTokens?: number },
-): Promise<string> {
-  const systemParts: string[] = [];
-  const chatMessages: Array<{
-    role: "user" | "assistant";
-    content: string | AnthropicContentBlock[];
-  }> = [];
-
-  for (const message of messages) {
-    if (message.role === "system") {
-      if (typeof message.content === "string") {
-        systemParts.push(message.content);
-      } else {
-        const text = message.content
-          .filter((part) => part.type === "text")
-          .map((part) => (part.type === "text" ? part.text : ""))
-          .join("\n");
-        if (text.trim().length > 0) {
-          systemParts.push(text);
-        }
-      }
-    } else {
-      chatMessages.push({
-        role: message.role,
-        content: message.content,
-      });
-    }
-  }
 
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+
+function toLlmUsage(usage: AnthropicUsage | undefined): LlmUsage {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cacheReadTokens: usage?.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage?.cache_creation_input_tokens ?? 0,
+  };
+}
+
+export function createAnthropicProvider(
+  baseUrl: string = DEFAULT_BASE_URL,
+): LlmProvider {
+  return {
+    name: "Anthropic",
+    defaultModel: MODEL,
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    complete: (request) => sendAnthropicRequest(baseUrl, request),
+  };
+}
+
+async function sendAnthropicRequest(
+  baseUrl: string,
+  request: LlmRequest,
+): Promise<LlmCompletion> {
   const body: Record<string, unknown> = {
-    model: MODEL,
-    max_tokens: options?.maxTokens ?? 128000,
-    messages: chatMessages,
+    model: request.model,
+    max_tokens: request.maxTokens ?? 128000,
+    messages: request.messages,
   };
 
-  if (systemParts.length > 0) {
-    body.system = systemParts.join("\n\n");
+  if (request.system) {
+    body.system = request.system;
   }
 
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
+  if (request.tool) {
+    body.tools = [
+      {
+        name: request.tool.name,
+        description: request.tool.description,
+        input_schema: request.tool.inputSchema,
+      },
+    ];
+    body.tool_choice = { type: "tool", name: request.tool.name };
+  }
+
+  if (request.stream) {
+    body.stream = true;
+  }
+
+  const response = await fixtureFetch(`${baseUrl}/messages`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      "x-api-key": apiKey,
+      "x-api-key": request.apiKey,
       "anthropic-version": "2023-06-01",
     },
     body: JSON.stringify(body),
+    signal: request.signal,
   });
 
-  const data = (await response.json()) as AnthropicResponse;
+  if (request.stream && response.ok && response.body) {
+    return readAnthropicStream(response.body, request.onLog);
+  }
+
+  const rawBody = await response.text();
+  let data: AnthropicResponse;
+  try {
+    data = JSON.parse(rawBody) as AnthropicResponse;
+  } catch {
+    data = { type: "error", error: { message: rawBody.slice(0, 500) } };
+  }
 
   if (!response.ok || data.type === "error") {
-    const errType = data.error?.type || "api_error";
-    const errMsg = data.error?.message || JSON.stringify(data);
-    throw new Error(`Anthropic API error: ${response.status} - ${errType}: ${errMsg}`);
+    throw new LlmApiError(
+      "Anthropic",
+      response.status,
+      data.error?.type || "api_error",
+      data.error?.message || JSON.stringify(data),
+      parseRetryAfterMs(response.headers.get("retry-after")),
+    );
   }
 
   const text = (data.content || [])
     .filter((part) => part.type === "text")
     .map((part) => part.text || "")
     .join("");
+  const toolUse = (data.content || []).find((part) => part.type === "tool_use");
 
-  if (!text) {
+  if (!text && !toolUse) {
     throw new Error("Anthropic returned empty content");
   }
 
-  return text;
+  return {
+    text,
+    usage: toLlmUsage(data.usage),
+    stopReason: data.stop_reason ?? null,
+    toolInput: toolUse?.input,
+  };
+}
+
+function parseToolJson(toolJson: string | null): unknown {
+  if (toolJson === null) return undefined;
+  try {
+    // A tool call with no arguments streams no deltas at all.
+    return JSON.parse(toolJson || "{}");
+  } catch {
+    return undefined;
+  }
+}
+
+async function readAnthropicStream(
+  stream: ReadableStream<Uint8Array>,
+  onLog?: (msg: string) => void,
+): Promise<LlmCompletion> {
+  const progress = createStreamProgress(onLog);
+  let text = "";
+  let usage = toLlmUsage(undefined);
+  let stopReason: string | null = null;
+  let toolJson: string | null = null;
+
+  for await (const data of readSseData(stream)) {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+    switch (event.type) {
+      case "message_start":
+        usage = toLlmUsage(event.message?.usage);
+        break;
+      case "content_block_start":
+        if (event.content_block?.type === "tool_use") {
+          toolJson = "";
+        }
+        break;
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta" && event.delta.text) {
+          text += event.delta.text;
+        } else if (
+          event.delta?.type === "input_json_delta" &&
+          toolJson !== null
+        ) {
+          toolJson += event.delta.partial_json ?? "";
+        }
+        break;
+      case "message_delta":
+        stopReason = event.delta?.stop_reason ?? stopReason;
+        usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+        break;
+      case "error":
+        throw new LlmApiError(
+          "Anthropic",
+          undefined,
+          event.error?.type || "api_error",
+          event.error?.message || JSON.stringify(event),
+        );
+    }
+    progress.update(text.length + (toolJson?.length ?? 0));
+  }
+
+  progress.finish(usage, stopReason);
+
+  if (!text && toolJson === null) {
+    throw new Error("Anthropic returned empty content");
+  }
+
+  const toolInput = parseToolJson(toolJson);
+  return {
+    text: text || (toolInput === undefined ? toolJson ?? "" : ""),
+    usage,
+    stopReason,
+    toolInput,
+  };
 }
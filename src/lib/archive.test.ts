@@ -0,0 +1,63 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import { describe, expect, it } from "vitest";
+import { expandZipArchive } from "./archive";
+
+function zip(files: Zippable): Buffer {
+  return Buffer.from(zipSync(files));
+}
+
+describe("expandZipArchive", () => {
+  it("flattens supported files and skips the rest", () => {
+    const { files, skipped } = expandZipArchive(
+      zip({
+        "exam/midterm.pdf": strToU8("%PDF-1.4"),
+        "exam/notes.txt": strToU8("notes"),
+        "exam/photo.jpg": strToU8("jpeg"),
+        "exam/.DS_Store": strToU8(""),
+        "__MACOSX/exam/._midterm.pdf": strToU8(""),
+        "exam/empty/": new Uint8Array(0),
+      }),
+    );
+    expect(files.map((file) => file.name)).toEqual(["midterm.pdf", "notes.txt"]);
+    expect(files[1].data.toString()).toBe("notes");
+    expect(skipped).toEqual(["exam/photo.jpg (unsupported type)"]);
+  });
+
+  it("prefixes the folder path when base names clash", () => {
+    const { files } = expandZipArchive(
+      zip({
+        "2023/exam.pdf": strToU8("a"),
+        "2024/exam.pdf": strToU8("b"),
+        "2024/solutions.pdf": strToU8("c"),
+      }),
+    );
+    expect(files.map((file) => file.name)).toEqual([
+      "2023_exam.pdf",
+      "2024_exam.pdf",
+      "solutions.pdf",
+    ]);
+  });
+
+  it("rejects archives with too many supported files", () => {
+    const entries: Zippable = {};
+    for (let i = 0; i < 201; i++) {
+      entries[`file${i}.txt`] = strToU8(`${i}`);
+    }
+    expect(() => expandZipArchive(zip(entries))).toThrow(
+      "ZIP archive has 201 supported files, more than the limit of 200",
+    );
+  });
+
+  // Compressing 201 MB of zeros takes several seconds on its own.
+  it("caps the inflated size, not the upload size", { timeout: 60_000 }, () => {
+    const archive = zip({ "big.txt": [new Uint8Array(201 * 1024 * 1024), { level: 1 }] });
+    expect(archive.length).toBeLessThan(1024 * 1024);
+    expect(() => expandZipArchive(archive)).toThrow("archive expands to more than 200 MB");
+  });
+
+  it("reports archives that are not ZIP files", () => {
+    expect(() => expandZipArchive(Buffer.from("not a zip"))).toThrow(
+      "Failed to read ZIP archive: not a ZIP file",
+    );
+  });
+});
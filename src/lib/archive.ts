@@ -0,0 +1,94 @@
+import { Unzip, UnzipInflate } from "fflate";
+import path from "path";
+import { isSupportedDocument } from "./pdf-utils";
+
+export interface ArchiveEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ExpandedArchive {
+  files: ArchiveEntry[];
+  /** Entries left out, with the reason, so the UI can tell the uploader. */
+  skipped: string[];
+}
+
+const MAX_ARCHIVE_FILES = 200;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+// Local file header and end-of-central-directory (empty archive) signatures.
+const ZIP_SIGNATURES = [0x04034b50, 0x06054b50];
+
+// Files are flattened to their base name because the rest of the pipeline (and the
+// worker's input/ directory) is flat; clashing names get their folder path prefixed.
+export function expandZipArchive(buffer: Buffer): ExpandedArchive {
+  // The streaming reader skips bytes it does not recognise, so anything else
+  // would come back as an empty archive instead of an error.
+  if (buffer.length < 4 || !ZIP_SIGNATURES.includes(buffer.readUInt32LE(0))) {
+    throw new Error("Failed to read ZIP archive: not a ZIP file");
+  }
+
+  const skipped: string[] = [];
+  let totalBytes = 0;
+  const entries: Record<string, Uint8Array[]> = {};
+
+  // Sizes are counted on the inflated bytes: the sizes in the ZIP headers are
+  // written by the uploader and cannot be trusted.
+  const unzipper = new Unzip((file) => {
+    if (file.name.endsWith("/")) return;
+    const baseName = path.posix.basename(file.name);
+    if (file.name.startsWith("__MACOSX/") || baseName.startsWith(".")) {
+      return;
+    }
+    if (!isSupportedDocument(baseName)) {
+      skipped.push(`${file.name} (unsupported type)`);
+      return;
+    }
+
+    const chunks: Uint8Array[] = [];
+    entries[file.name] = chunks;
+    file.ondata = (error, chunk) => {
+      if (error) throw error;
+      totalBytes += chunk.length;
+      if (totalBytes > MAX_ARCHIVE_BYTES) {
+        throw new Error(
+          `archive expands to more than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB`,
+        );
+      }
+      chunks.push(chunk);
+    };
+    file.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  try {
+    unzipper.push(new Uint8Array(buffer), true);
+  } catch (error) {
+    throw new Error(`Failed to read ZIP archive: ${error}`);
+  }
+
+  const names = Object.keys(entries).sort();
+  if (names.length > MAX_ARCHIVE_FILES) {
+    throw new Error(
+      `ZIP archive has ${names.length} supported files, more than the limit of ${MAX_ARCHIVE_FILES}`,
+    );
+  }
+
+  const baseNameCounts = new Map<string, number>();
+  for (const name of names) {
+    const baseName = path.posix.basename(name);
+    baseNameCounts.set(baseName, (baseNameCounts.get(baseName) ?? 0) + 1);
+  }
+
+  const files = names.map((name) => {
+    const baseName = path.posix.basename(name);
+    return {
+      name:
+        (baseNameCounts.get(baseName) ?? 0) > 1
+          ? name.replace(/[\\/]+/g, "_")
+          : baseName,
+      data: Buffer.concat(entries[name]),
+    };
+  });
+
+  return { files, skipped };
+}
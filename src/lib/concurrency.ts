@@ -0,0 +1,41 @@
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight. Results keep the
+ * input order. The first rejection (or an abort) stops new items from starting
+ * and rejects the whole map once the in-flight calls settle.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      signal?.throwIfAborted();
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  const settled = await Promise.allSettled(
+    Array.from({ length: workerCount }, () => worker()),
+  );
+  const rejection = settled.find(
+    (result): result is PromiseRejectedResult => result.status === "rejected",
+  );
+  if (rejection) {
+    throw rejection.reason;
+  }
+
+  return results;
+}
@@ -1,4 +1,5 @@
 import { spawn } from "child_process";
+import { randomUUID } from "crypto";
 
 export async function runDockerJob(params: {
   image: string;
@@ -6,6 +7,8 @@ export async function runDockerJob(params: {
   env: Record<string, string>;
   log: (msg: string) => void;
   redact?: string[];
+  /** Aborting removes the container, so it stops before it can push. */
+  signal?: AbortSignal;
 }): Promise<void> {
   if (process.env.VERCEL) {
     throw new Error(
@@ -13,9 +16,19 @@ export async function runDockerJob(params: {
     );
   }
 
-  const { image, jobDir, env, log } = params;
+  const { image, jobDir, env, log, signal } = params;
+  signal?.throwIfAborted();
+
   const redactions = (params.redact ?? []).filter((value) => value.length > 0);
-  const args = ["run", "--rm", "-v", `${jobDir}:/job`];
+  const containerName = `sib-job-${randomUUID()}`;
+  const args = [
+    "run",
+    "--rm",
+    "--name",
+    containerName,
+    "-v",
+    `${jobDir}:/job`,
+  ];
 
   for (const [key, value] of Object.entries(env)) {
     args.push("-e", `${key}=${value}`);
@@ -46,12 +59,26 @@ export async function runDockerJob(params: {
       pipe(chunk);
     });
 
+    // Killing the docker CLI alone leaves the container running, so remove it by name.
+    const onAbort = () => {
+      spawn("docker", ["rm", "-f", containerName], { stdio: "ignore" }).on(
+        "error",
+        () => {},
+      );
+      child.kill("SIGTERM");
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     child.on("error", (error) => {
+      signal?.removeEventListener("abort", onAbort);
       reject(error);
     });
 
     child.on("close", (code) => {
-      if (code === 0) {
+      signal?.removeEventListener("abort", onAbort);
+      if (signal?.aborted) {
+        reject(signal.reason);
+      } else if (code === 0) {
         resolve();
       } else {
         const suffix = stderr.trim().length > 0 ? `: ${stderr.trim()}` : "";
@@ -0,0 +1,135 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import {
+  extractTextFromDocx,
+  extractTextFromHtml,
+  extractTextFromLatex,
+} from "./document-extractors";
+
+function docx(bodyXml: string, extra: Record<string, string> = {}): Buffer {
+  const files: Record<string, Uint8Array> = {
+    "word/document.xml": strToU8(
+      `<?xml version="1.0"?><w:document><w:body>${bodyXml}</w:body></w:document>`,
+    ),
+  };
+  for (const [name, xml] of Object.entries(extra)) {
+    files[name] = strToU8(xml);
+  }
+  return Buffer.from(zipSync(files));
+}
+
+const paragraph = (...runs: string[]) =>
+  `<w:p><w:pPr/>${runs.map((run) => `<w:r><w:t xml:space="preserve">${run}</w:t></w:r>`).join("")}</w:p>`;
+
+describe("extractTextFromDocx", () => {
+  it("joins runs into paragraphs and keeps tabs and breaks", () => {
+    const text = extractTextFromDocx(
+      docx(
+        `${paragraph("Question ", "1")}` +
+          "<w:p><w:r><w:t>a</w:t><w:tab/><w:t>b</w:t><w:br/>" +
+          "<w:t>c &amp; d &#x3C0; &#1114112;</w:t></w:r></w:p>",
+      ),
+    );
+    expect(text).toBe("Question 1\na\tb\nc & d π &#1114112;");
+  });
+
+  it("renders tables as pipe-separated rows", () => {
+    const cell = (text: string) => `<w:tc>${paragraph(text)}</w:tc>`;
+    const row = (...cells: string[]) => `<w:tr>${cells.map(cell).join("")}</w:tr>`;
+    const table = `<w:tbl>${row("Page", "Frame")}${row("0", "7")}</w:tbl>`;
+    expect(extractTextFromDocx(docx(`${paragraph("Table:")}${table}${paragraph("End")}`))).toBe(
+      "Table:\nPage | Frame\n0 | 7\n\nEnd",
+    );
+  });
+
+  it("appends footnotes", () => {
+    const footnotes = `<w:footnotes>${paragraph("Assume 4 KB pages.")}</w:footnotes>`;
+    expect(
+      extractTextFromDocx(docx(paragraph("Question 1"), { "word/footnotes.xml": footnotes })),
+    ).toBe("Question 1\n\nAssume 4 KB pages.");
+  });
+
+  it("rejects files that are not Word documents", () => {
+    expect(() => extractTextFromDocx(Buffer.from("plain text"))).toThrow("Failed to read DOCX");
+    expect(() => extractTextFromDocx(Buffer.from(zipSync({ "a.txt": strToU8("a") })))).toThrow(
+      "word/document.xml not found",
+    );
+  });
+});
+
+describe("extractTextFromLatex", () => {
+  it("keeps code environments verbatim and strips markup", () => {
+    const source = String.raw`\documentclass{exam}
+% preamble comment
+\begin{document}
+\section*{Processes}
+\begin{enumerate}
+\item What does \texttt{fork} return? % answer: pid
+\item Costs 50\% more.
+\end{enumerate}
+\begin{lstlisting}[language=C]
+int main() {
+    return 0; % not a comment
+}
+\end{lstlisting}
+Use \verb|x->y| here.
+\begin{comment}
+Hidden solution.
+\end{comment}
+\end{document}`;
+
+    expect(extractTextFromLatex(source)).toBe(
+      [
+        "## Processes",
+        "",
+        "- What does fork return?",
+        "",
+        "- Costs 50% more.",
+        "",
+        "```",
+        "int main() {",
+        "    return 0; % not a comment",
+        "}",
+        "```",
+        "",
+        "Use `x->y` here.",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("extractTextFromHtml", () => {
+  it("converts headings, lists, tables and code to text", () => {
+    const html = `<html><head><title>x</title><style>p{}</style></head><body>
+<h2>Question <b>1</b></h2>
+<p>Pick one:</p><ul><li>fork</li><li>exec &amp; wait</li></ul>
+<table><tr><th>Page</th><th>Frame</th></tr><tr><td>0</td><td>7</td></tr></table>
+<pre><code>if (x &lt; 1)
+    return;</code></pre>
+<img src="f.png" alt="Figure 1"><!-- hidden -->
+<script>alert(1)</script>
+</body></html>`;
+
+    expect(extractTextFromHtml(html)).toBe(
+      [
+        "## Question 1",
+        "",
+        "Pick one:",
+        "",
+        "- fork",
+        "- exec & wait",
+        "",
+        "Page | Frame",
+        "",
+        "0 | 7",
+        "",
+        "```",
+        "if (x < 1)",
+        "    return;",
+        "```",
+        "",
+        "[image: Figure 1]",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { strFromU8, unzipSync } from "fflate";
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function collapseBlankLines(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Word keeps runs, tabs and breaks as separate elements; paragraphs become lines and table rows become "a | b | c".
+function wordXmlToText(xml: string): string {
+  const paragraphText = (paragraph: string) => {
+    let text = "";
+    for (const match of paragraph.matchAll(
+      /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>/g,
+    )) {
+      if (match[1] !== undefined) {
+        text += match[1];
+      } else {
+        text += match[0].startsWith("<w:tab") ? "\t" : "\n";
+      }
+    }
+    return decodeEntities(text);
+  };
+
+  const paragraphs = (block: string) =>
+    (block.match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? []).map(paragraphText);
+
+  const lines: string[] = [];
+  const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? xml;
+  const blocks = body.match(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g) ?? [];
+
+  for (const block of blocks) {
+    if (block.startsWith("<w:tbl>")) {
+      for (const row of block.match(/<w:tr[ >][\s\S]*?<\/w:tr>/g) ?? []) {
+        const cells = (row.match(/<w:tc>[\s\S]*?<\/w:tc>/g) ?? []).map((cell) =>
+          paragraphs(cell).join(" ").trim(),
+        );
+        lines.push(cells.join(" | "));
+      }
+      lines.push("");
+    } else {
+      lines.push(paragraphText(block));
+    }
+  }
+
+  return collapseBlankLines(lines.join("\n"));
+}
+
+export function extractTextFromDocx(buffer: Buffer): string {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer), {
+      filter: (file) => /^word\/(document|footnotes|endnotes)\.xml$/.test(file.name),
+    });
+  } catch (error) {
+    throw new Error(`Failed to read DOCX: ${error}`);
+  }
+
+  const document = files["word/document.xml"];
+  if (!document) {
+    throw new Error("Failed to read DOCX: word/document.xml not found");
+  }
+
+  const sections = [wordXmlToText(strFromU8(document))];
+  for (const name of ["word/footnotes.xml", "word/endnotes.xml"]) {
+    const notes = files[name] ? wordXmlToText(strFromU8(files[name])) : "";
+    if (notes) sections.push(notes);
+  }
+  return sections.join("\n\n");
+}
+
+const LATEX_CODE_ENVIRONMENTS = [
+  "verbatim",
+  "Verbatim",
+  "lstlisting",
+  "minted",
+  "alltt",
+  "comment",
+];
+
+const LATEX_SECTION_LEVELS: Record<string, string> = {
+  part: "#",
+  chapter: "#",
+  section: "##",
+  subsection: "###",
+  subsubsection: "####",
+  paragraph: "####",
+};
+
+/**
+ * Converts LaTeX source into readable text. Code environments are kept byte for
+ * byte as fenced blocks; math is left as LaTeX since the generator reads it fine.
+ */
+export function extractTextFromLatex(source: string): string {
+  const codeBlocks: string[] = [];
+  const environments = LATEX_CODE_ENVIRONMENTS.join("|");
+  let text = source.replace(
+    new RegExp(
+      `\\\\begin\\{(${environments})\\*?\\}(?:\\[[^\\]]*\\])?(?:\\{[^}]*\\})?\\n?([\\s\\S]*?)\\\\end\\{\\1\\*?\\}`,
+      "g",
+    ),
+    (_match, environment: string, body: string) => {
+      if (environment === "comment") return "";
+      codeBlocks.push(`\n\`\`\`\n${body.replace(/\n$/, "")}\n\`\`\`\n`);
+      return `\u0000CODE${codeBlocks.length - 1}\u0000`;
+    },
+  );
+  text = text.replace(/\\(?:verb|lstinline)\*?([^\w\s{])(.*?)\1/g, (_m, _d, code) => {
+    codeBlocks.push(`\`${code}\``);
+    return `\u0000CODE${codeBlocks.length - 1}\u0000`;
+  });
+
+  // Unescaped % starts a comment.
+  text = text.replace(/(^|[^\\])%.*$/gm, "$1");
+
+  const documentBody = text.match(/\\begin\{document\}([\s\S]*?)(\\end\{document\}|$)/);
+  if (documentBody) {
+    text = documentBody[1];
+  }
+
+  text = text
+    .replace(
+      /\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\{([^}]*)\}/g,
+      (_m, level: string, title: string) => `\n${LATEX_SECTION_LEVELS[level]} ${title}\n`,
+    )
+    .replace(/\\item\s*\[([^\]]*)\]\s*/g, "\n- $1 ")
+    .replace(/\\item\s*/g, "\n- ")
+    .replace(/\\begin\{(enumerate|itemize|description|center|flushleft|flushright|quote|problem|question|parts|solution)\}(\[[^\]]*\])?/g, "\n")
+    .replace(/\\end\{(enumerate|itemize|description|center|flushleft|flushright|quote|problem|question|parts|solution)\}/g, "\n")
+    .replace(/\\(textbf|textit|emph|underline|texttt|textsc|mbox|text)\{([^{}]*)\}/g, "$2")
+    .replace(/\\(vspace|hspace|label|vskip|hskip)\*?\{[^}]*\}/g, "")
+    .replace(/\\(newpage|clearpage|pagebreak|noindent|maketitle|centering|smallskip|medskip|bigskip|hfill|vfill)\b/g, "")
+    .replace(/\\\\(\[[^\]]*\])?/g, "\n")
+    .replace(/\\([%$&#_{}])/g, "$1")
+    .replace(/~/g, " ");
+
+  text = text.replace(
+    /\u0000CODE(\d+)\u0000/g,
+    (_m, index: string) => codeBlocks[Number(index)],
+  );
+
+  return collapseBlankLines(text);
+}
+
+const HTML_BLOCK_TAGS =
+  "p|div|section|article|header|footer|main|aside|blockquote|table|thead|tbody|ul|ol|dl|dd|dt|figure|figcaption|form|hr";
+
+export function extractTextFromHtml(html: string): string {
+  const codeBlocks: string[] = [];
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1>/gi, "");
+
+  text = text.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_m, body: string) => {
+    const code = decodeEntities(body.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, ""));
+    codeBlocks.push(`\n\`\`\`\n${code.replace(/^\n|\n$/g, "")}\n\`\`\`\n`);
+    return `\u0000CODE${codeBlocks.length - 1}\u0000`;
+  });
+
+  text = text
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_m, level: string, title: string) =>
+      `\n${"#".repeat(Number(level))} ${title.replace(/<[^>]+>/g, "").trim()}\n`,
+    )
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, "`$1`")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/t[dh]>\s*<t[dh]\b[^>]*>/gi, " | ")
+    .replace(/<\/?tr\b[^>]*>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(new RegExp(`</?(${HTML_BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+    .replace(/<img\b[^>]*\balt="([^"]*)"[^>]*>/gi, "[image: $1]")
+    .replace(/<[^>]+>/g, "");
+
+  text = decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n");
+
+  text = text.replace(
+    /\u0000CODE(\d+)\u0000/g,
+    (_m, index: string) => codeBlocks[Number(index)],
+  );
+
+  return collapseBlankLines(text);
+}
@@ -0,0 +1,83 @@
+import { parseExamMd, serializeExamMd, setBlockData } from "./exam-md";
+
+export function normalizeTags(rawTags: unknown): string[] {
+  if (!Array.isArray(rawTags)) {
+    return ["misc"];
+  }
+
+  const normalized: string[] = [];
+  const seen = new Set<string>();
+
+  for (const tag of rawTags) {
+    if (typeof tag !== "string") {
+      continue;
+    }
+
+    let cleaned = tag.toLowerCase();
+    cleaned = cleaned.replace(/[\s_\/]+/g, "-");
+    cleaned = cleaned.replace(/[^a-z0-9-]/g, "");
+    cleaned = cleaned.replace(/-+/g, "-");
+    cleaned = cleaned.replace(/^-+|-+$/g, "");
+
+    if (!cleaned) {
+      continue;
+    }
+
+    if (!seen.has(cleaned)) {
+      seen.add(cleaned);
+      normalized.push(cleaned);
+    }
+  }
+
+  return normalized.length > 0 ? normalized : ["misc"];
+}
+
+/**
+ * Normalizes question tags and recomputes num_questions and score_total from
+ * the questions. Blocks that do not change keep their original formatting.
+ */
+export function normalizeExamMetadataAndTags(examMd: string): string {
+  const document = parseExamMd(examMd);
+  let changed = false;
+  let totalPoints = 0;
+
+  for (const question of document.questions) {
+    const { data } = question;
+    if (typeof data.points === "number" && Number.isFinite(data.points)) {
+      totalPoints += data.points;
+    }
+
+    const normalizedTags = normalizeTags(data.tags);
+    if (JSON.stringify(normalizedTags) !== JSON.stringify(data.tags)) {
+      data.tags = normalizedTags;
+      setBlockData(question.segment.block, data);
+      changed = true;
+    }
+  }
+
+  const { metadata, metadataSegment } = document;
+  const questionCount = document.questions.length;
+  if (metadata && metadataSegment && questionCount > 0) {
+    let metadataChanged = false;
+    if (metadata.num_questions !== questionCount) {
+      metadata.num_questions = questionCount;
+      metadataChanged = true;
+    }
+
+    const scoreTotal =
+      typeof metadata.score_total === "number"
+        ? metadata.score_total
+        : Number(metadata.score_total);
+    if (!Number.isFinite(scoreTotal) || scoreTotal !== totalPoints) {
+      metadata.score_total = totalPoints;
+      metadataChanged = true;
+    }
+
+    if (metadataChanged) {
+      setBlockData(metadataSegment.block, metadata);
+      changed = true;
+    }
+  }
+
+  return changed ? serializeExamMd(document) : examMd;
+}
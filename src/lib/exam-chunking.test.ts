@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { findMissingLabels, mergeExamChunks, segmentExam } from "./exam-chunking";
+import { parseExamMd } from "./exam-md";
+import { callLlmStructured } from "./structured-output";
+
+vi.mock("./structured-output", () => ({ callLlmStructured: vi.fn() }));
+
+const mockedCall = vi.mocked(callLlmStructured);
+
+const EXAM_TEXT = `Final Exam
+Answer all questions.
+
+1. Explain
+   paging.
+
+2. Compare FIFO and LRU.
+
+3. Describe a deadlock.
+`;
+
+const SOLUTIONS_TEXT = `Solutions
+
+1. Paging splits memory into frames.
+
+2. LRU evicts the least recently used page.
+
+3. A cycle of waiting processes.
+`;
+
+function segmentation(questions: Array<[string, string, string]>) {
+  mockedCall.mockResolvedValue({
+    questions: questions.map(([label, exam_anchor, solutions_anchor]) => ({
+      label,
+      exam_anchor,
+      solutions_anchor,
+    })),
+  });
+}
+
+function question(id: string): string {
+  const data = { problem_id: id, points: 1, type: "Freeform", tags: ["os"], answer: "x" };
+  return `## Question ${id} [1 point]\n\nText ${id}.\n\n\`\`\`json\n${JSON.stringify(data)}\n\`\`\``;
+}
+
+describe("segmentExam", () => {
+  beforeEach(() => {
+    mockedCall.mockReset();
+  });
+
+  it("cuts exam and solutions at anchors despite line wrapping", async () => {
+    segmentation([
+      ["1", "1. Explain paging.", "1. Paging splits"],
+      ["2", "2. Compare FIFO and LRU.", "2. LRU evicts"],
+      ["3", "3. Describe a deadlock.", "3. A cycle"],
+    ]);
+
+    const { preamble, chunks } = await segmentExam(EXAM_TEXT, SOLUTIONS_TEXT, "key");
+    expect(preamble).toBe("Final Exam\nAnswer all questions.\n\n");
+    expect(chunks.map((chunk) => chunk.labels)).toEqual([["1"], ["2"], ["3"]]);
+    expect(chunks[0].examText).toBe("1. Explain\n   paging.\n\n");
+    expect(chunks[1].solutionsText).toBe("2. LRU evicts the least recently used page.\n\n");
+    expect(chunks[2].examText).toBe("3. Describe a deadlock.\n");
+  });
+
+  it("folds a question without an exam anchor into the previous chunk", async () => {
+    segmentation([
+      ["1", "1. Explain paging.", "1. Paging splits"],
+      ["2", "2. Compare LRU and FIFO.", "2. LRU evicts"],
+      ["3", "3. Describe a deadlock.", "3. A cycle"],
+    ]);
+
+    const { chunks } = await segmentExam(EXAM_TEXT, SOLUTIONS_TEXT, "key");
+    expect(chunks.map((chunk) => chunk.labels)).toEqual([["1", "2"], ["3"]]);
+    expect(chunks[0].examText).toContain("2. Compare FIFO and LRU.");
+    expect(chunks[0].solutionsText).toContain("2. LRU evicts");
+  });
+
+  it("folds leading questions without an anchor into the first chunk", async () => {
+    segmentation([
+      ["1", "1. Explain virtual memory.", ""],
+      ["2", "2. Compare FIFO and LRU.", "2. LRU evicts"],
+      ["3", "3. Describe a deadlock.", "3. A cycle"],
+    ]);
+
+    const { preamble, chunks } = await segmentExam(EXAM_TEXT, SOLUTIONS_TEXT, "key");
+    expect(preamble).toBe(EXAM_TEXT.slice(0, EXAM_TEXT.indexOf("2.")));
+    expect(chunks.map((chunk) => chunk.labels)).toEqual([["1", "2"], ["3"]]);
+    expect(chunks[0].examText).toBe(EXAM_TEXT.slice(0, EXAM_TEXT.indexOf("3.")));
+    expect(chunks[0].solutionsText).toContain("1. Paging splits");
+  });
+
+  it("fails when no anchor is found", async () => {
+    segmentation([["1", "Question one", ""]]);
+    await expect(segmentExam(EXAM_TEXT, SOLUTIONS_TEXT, "key")).rejects.toThrow(
+      "Question segmentation did not match the exam text",
+    );
+  });
+});
+
+describe("mergeExamChunks", () => {
+  it("joins question blocks under one header and drops repeated metadata", () => {
+    const header = '# Final\n\n```json\n{"exam_id": "os_final"}\n```';
+    const repeatedHeader = '# Final\n\n```json\n{"exam_id": "other"}\n```';
+    const merged = mergeExamChunks(header, [
+      `---\n\n${question("1")}\n\n---\n`,
+      `${repeatedHeader}\n\n---\n\n${question("2a")}\n\n---\n\n${question("2b")}`,
+      "   ",
+    ]);
+
+    const document = parseExamMd(merged);
+    expect(document.metadata).toEqual({ exam_id: "os_final" });
+    expect(document.questions.map((entry) => entry.problemId)).toEqual(["1", "2a", "2b"]);
+    expect(merged).not.toContain("other");
+    expect(merged.match(/^---$/gm)).toHaveLength(3);
+    expect(merged.endsWith("```\n")).toBe(true);
+  });
+});
+
+describe("findMissingLabels", () => {
+  it("counts sub-parts as their top-level question", () => {
+    const examMd = [question("1"), question("2a"), question("2b"), question("12")].join("\n\n");
+    expect(findMissingLabels(examMd, ["1", "2", "3", "12"])).toEqual(["3"]);
+  });
+
+  it("does not let a longer number stand in for a shorter one", () => {
+    expect(findMissingLabels(question("12"), ["1", "12"])).toEqual(["1"]);
+  });
+});
@@ -0,0 +1,212 @@
+import { parseExamMd, serializeExamMd } from "./exam-md";
+import type { JsonSchema } from "./json-schema";
+import type { LlmJobOptions } from "./llm-client";
+import { callLlmStructured } from "./structured-output";
+
+export interface ExamChunk {
+  /** Top-level question labels covered by this chunk, e.g. ["3"] or ["3", "4"]. */
+  labels: string[];
+  examText: string;
+  solutionsText: string;
+}
+
+export interface ExamSegmentation {
+  /** Exam text before the first question: title, instructions, cover page. */
+  preamble: string;
+  chunks: ExamChunk[];
+}
+
+const DEFAULT_CHUNK_MIN_CHARS = 30_000;
+const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+const SEGMENTATION_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["questions"],
+  additionalProperties: false,
+  properties: {
+    questions: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["label", "exam_anchor", "solutions_anchor"],
+        additionalProperties: false,
+        properties: {
+          label: { type: "string", minLength: 1 },
+          exam_anchor: { type: "string", minLength: 1 },
+          solutions_anchor: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const SEGMENTATION_PROMPT = `You split an exam into its top-level questions so each one can be converted separately.
+
+For every top-level question, in order, give:
+- label: the question number as printed, e.g. "3". Sub-parts such as 3a or 3(b) belong to their top-level question and are NOT listed separately.
+- exam_anchor: the first line of the question in the EXAM text, copied exactly (at least a few words, including the number).
+- solutions_anchor: the first line of the same question in the SOLUTIONS text, copied exactly, or "" if the solutions do not have it.
+
+Do not list cover pages, instructions or answer sheets as questions. Return the result by calling the record_questions tool.`;
+
+/**
+ * SIB_CHUNKED_GENERATION: "on", "off", or "auto" (default) to chunk exams whose
+ * extracted text is at least SIB_CHUNK_MIN_CHARS long.
+ */
+export function shouldChunkExam(examText: string): boolean {
+  const mode = (process.env.SIB_CHUNKED_GENERATION || "auto").toLowerCase();
+  if (mode === "on" || mode === "true") return true;
+  if (mode === "off" || mode === "false") return false;
+
+  const minChars = Number(process.env.SIB_CHUNK_MIN_CHARS);
+  return (
+    examText.length >=
+    (Number.isInteger(minChars) && minChars > 0 ? minChars : DEFAULT_CHUNK_MIN_CHARS)
+  );
+}
+
+export function getChunkConcurrency(): number {
+  const value = Number(process.env.SIB_CHUNK_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CHUNK_CONCURRENCY;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Anchors are matched word by word so line wrapping and spacing differences don't matter.
+function findAnchor(text: string, anchor: string, from: number): number | null {
+  const words = anchor.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const match = new RegExp(words.map(escapeRegExp).join("\\s+")).exec(text.slice(from));
+  return match ? from + match.index : null;
+}
+
+function findAnchors(text: string, anchors: string[]): Array<number | null> {
+  let from = 0;
+  return anchors.map((anchor) => {
+    const position = findAnchor(text, anchor, from);
+    if (position !== null) from = position + 1;
+    return position;
+  });
+}
+
+/**
+ * Splits the exam into top-level questions with one short structured call, then
+ * cuts the exam and solutions text at the returned anchors. Questions whose exam
+ * anchor is not found are folded into the previous chunk rather than dropped;
+ * leading ones go into the first chunk, which then starts at the top of the exam.
+ */
+export async function segmentExam(
+  examText: string,
+  solutionsText: string,
+  apiKey: string,
+  options: LlmJobOptions = {},
+): Promise<ExamSegmentation> {
+  const { questions } = await callLlmStructured<{
+    questions: Array<{ label: string; exam_anchor: string; solutions_anchor: string }>;
+  }>(
+    [
+      { role: "system", content: SEGMENTATION_PROMPT },
+      {
+        role: "user",
+        content: `=== EXAM ===\n${examText}\n\n=== SOLUTIONS ===\n${solutionsText}`,
+      },
+    ],
+    apiKey,
+    "segment",
+    {
+      toolName: "record_questions",
+      description: "Record where each top-level question starts in the exam and solutions.",
+      schema: SEGMENTATION_SCHEMA,
+    },
+    { ...options, maxTokens: 4096 },
+  );
+
+  const examStarts = findAnchors(
+    examText,
+    questions.map((question) => question.exam_anchor),
+  );
+  const solutionStarts = findAnchors(
+    solutionsText,
+    questions.map((question) => question.solutions_anchor),
+  );
+
+  const found = questions
+    .map((question, index) => ({ question, index, start: examStarts[index] }))
+    .filter((entry): entry is typeof entry & { start: number } => entry.start !== null);
+  if (found.length === 0) {
+    throw new Error("Question segmentation did not match the exam text");
+  }
+
+  // A chunk's solutions run from its first known anchor to the next known anchor
+  // after it. Without an anchor of its own, it starts at the last known one before it.
+  const firstKnown = (starts: Array<number | null>) =>
+    starts.find((start) => start !== null) ?? null;
+
+  // Leading questions without an anchor would otherwise only reach the header
+  // call, so the first chunk takes them and starts at the top of both texts.
+  const preamble = examText.slice(0, found[0].start);
+  const leadingUnanchored = found[0].index > 0;
+  if (leadingUnanchored) {
+    found[0] = { ...found[0], index: 0, start: 0 };
+  }
+
+  const chunks = found.map((entry, i) => {
+    const next = found[i + 1];
+    const end = next ? next.index : questions.length;
+    const solutionsStart =
+      i === 0 && leadingUnanchored
+        ? 0
+        : (firstKnown(solutionStarts.slice(entry.index, end)) ??
+          firstKnown(solutionStarts.slice(0, entry.index).reverse()) ??
+          0);
+    const solutionsEnd = firstKnown(solutionStarts.slice(end)) ?? solutionsText.length;
+    return {
+      labels: questions.slice(entry.index, end).map((question) => question.label),
+      examText: examText.slice(entry.start, next ? next.start : examText.length),
+      solutionsText: solutionsText.slice(solutionsStart, solutionsEnd),
+    };
+  });
+
+  return { preamble, chunks };
+}
+
+/**
+ * Top-level labels with no question in `examMd`. A label counts as present when
+ * a problem_id equals it or extends it with a sub-part, e.g. "3" and "3b".
+ */
+export function findMissingLabels(examMd: string, labels: string[]): string[] {
+  const problemIds = parseExamMd(examMd).questions.map((question) => question.problemId);
+  return labels.filter(
+    (label) =>
+      !problemIds.some(
+        (problemId) =>
+          problemId === label ||
+          (problemId.startsWith(label) && !/^\d/.test(problemId.slice(label.length))),
+      ),
+  );
+}
+
+/**
+ * Joins a header (title and metadata block) with the question blocks generated
+ * per chunk. Any title or metadata a chunk produced anyway is dropped.
+ */
+export function mergeExamChunks(header: string, pieces: string[]): string {
+  const questions = pieces
+    .map((piece) => {
+      const document = parseExamMd(piece);
+      if (document.metadataSegment) {
+        document.segments.shift();
+      }
+      return serializeExamMd(document)
+        .trim()
+        .replace(/^---\s*\n/, "")
+        .replace(/\n---$/, "")
+        .trim();
+    })
+    .filter((piece) => piece.length > 0);
+
+  return `${[header.trim(), ...questions].join("\n\n---\n\n")}\n`;
+}
@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { AnswerGroundingResult } from "./exam-grounding";
+import type { ExtractedFigure } from "./pdf-figures";
+
+export interface ExamDraftFile {
+  name: string;
+  data: Buffer;
+}
+
+export interface ExamDraft {
+  jobId: string;
+  createdAt: number;
+  /** exam_id given by the uploader, if any; otherwise taken from exam.md at publish time. */
+  examId?: string;
+  examMd: string;
+  examFileName: string;
+  /** Page-marked extracted text, kept for the PR body's source page table. */
+  examText: string;
+  solutionsText: string;
+  solutionsFile: ExamDraftFile;
+  referenceFiles: ExamDraftFile[];
+  figures: ExtractedFigure[];
+  grounding: AnswerGroundingResult[];
+}
+
+type StoredFile = { name: string; data: string };
+
+interface StoredDraft
+  extends Omit<ExamDraft, "solutionsFile" | "referenceFiles" | "figures"> {
+  solutionsFile: StoredFile;
+  referenceFiles: StoredFile[];
+  figures: Array<Omit<ExtractedFigure, "data"> & { data: string }>;
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function getDraftsDir(): string {
+  return process.env.SIB_DRAFTS_DIR || path.join(os.tmpdir(), "sib-exam-drafts");
+}
+
+function getDraftTtlMs(): number {
+  const ttlSeconds = Number(process.env.SIB_DRAFT_TTL_SECONDS || DEFAULT_TTL_SECONDS);
+  return (Number.isFinite(ttlSeconds) ? ttlSeconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+function draftPath(jobId: string): string {
+  return path.join(getDraftsDir(), `${jobId}.json`);
+}
+
+async function pruneExpiredDrafts(): Promise<void> {
+  const now = Date.now();
+  const ttlMs = getDraftTtlMs();
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getDraftsDir());
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const file = path.join(getDraftsDir(), entry);
+    try {
+      const stat = await fs.stat(file);
+      if (now - stat.mtimeMs > ttlMs) {
+        await fs.rm(file, { force: true });
+      }
+    } catch {}
+  }
+}
+
+export async function saveExamDraft(
+  draft: Omit<ExamDraft, "jobId" | "createdAt">,
+): Promise<ExamDraft> {
+  await pruneExpiredDrafts();
+
+  const saved: ExamDraft = { ...draft, jobId: randomUUID(), createdAt: Date.now() };
+  const stored: StoredDraft = {
+    ...saved,
+    solutionsFile: { name: saved.solutionsFile.name, data: saved.solutionsFile.data.toString("base64") },
+    referenceFiles: saved.referenceFiles.map((file) => ({
+      name: file.name,
+      data: file.data.toString("base64"),
+    })),
+    figures: saved.figures.map((figure) => ({ ...figure, data: figure.data.toString("base64") })),
+  };
+
+  await fs.mkdir(getDraftsDir(), { recursive: true });
+  await fs.writeFile(draftPath(saved.jobId), JSON.stringify(stored), "utf-8");
+  return saved;
+}
+
+/** Returns the draft, or null if the job ID is unknown, malformed or expired. */
+export async function loadExamDraft(jobId: string): Promise<ExamDraft | null> {
+  if (!JOB_ID_PATTERN.test(jobId)) return null;
+
+  let stored: StoredDraft;
+  try {
+    stored = JSON.parse(await fs.readFile(draftPath(jobId), "utf-8")) as StoredDraft;
+  } catch {
+    return null;
+  }
+  if (Date.now() - stored.createdAt > getDraftTtlMs()) {
+    await deleteExamDraft(jobId);
+    return null;
+  }
+
+  const toFile = (file: StoredFile): ExamDraftFile => ({
+    name: file.name,
+    data: Buffer.from(file.data, "base64"),
+  });
+  return {
+    ...stored,
+    solutionsFile: toFile(stored.solutionsFile),
+    referenceFiles: stored.referenceFiles.map(toFile),
+    figures: stored.figures.map((figure) => ({
+      ...figure,
+      data: Buffer.from(figure.data, "base64"),
+    })),
+  };
+}
+
+export async function deleteExamDraft(jobId: string): Promise<void> {
+  if (!JOB_ID_PATTERN.test(jobId)) return;
+  await fs.rm(draftPath(jobId), { force: true });
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { findExactMatchWarnings, validateExactMatchChoices } from "./exam-exact-match";
+import { parseExamMd } from "./exam-md";
+import { formatExamIssues } from "./exam-schema";
+
+function check(body: string, choices: unknown, answer: unknown) {
+  const data = { problem_id: "1", points: 1, type: "ExactMatch", tags: ["os"], choices, answer };
+  const document = parseExamMd(
+    `## Question 1 [1 point]\n\n${body}\n\n\`\`\`json\n${JSON.stringify(data)}\n\`\`\`\n`,
+  );
+  return {
+    issues: formatExamIssues(validateExactMatchChoices(document)),
+    warnings: formatExamIssues(findExactMatchWarnings(document)),
+  };
+}
+
+const BODY = "Which call replaces the process image?\n\nA) fork\nB) **exec**\nC) wait";
+
+describe("validateExactMatchChoices", () => {
+  it("accepts options that match the choices", () => {
+    expect(check(BODY, ["fork", "exec", "wait"], "B")).toEqual({ issues: [], warnings: [] });
+  });
+
+  it("rejects answers that are not an in-range uppercase letter", () => {
+    const choices = ["fork", "exec", "wait"];
+    expect(check(BODY, choices, "b").issues).toEqual(['Q1: answer "b" must be an uppercase letter']);
+    expect(check(BODY, choices, "D").issues).toEqual([
+      'Q1: answer "D" is out of range for 3 choices (A-C)',
+    ]);
+    expect(check(BODY, choices, "exec").issues).toEqual([
+      'Q1: answer "exec" must be a single letter A-C',
+    ]);
+  });
+
+  it("requires True/False choices and a letter answer", () => {
+    const statement = "A child process shares its parent's address space.";
+    expect(check(statement, ["True", "False"], "B")).toEqual({ issues: [], warnings: [] });
+    expect(check(statement, ["true", "false"], "True").issues).toEqual([
+      'Q1: True/False answer must be a letter (A for True, B for False), got "True"',
+      'Q1: True/False choices must be ["True","False"], got ["true","false"]',
+    ]);
+  });
+
+  it("only warns when the text lists its options differently", () => {
+    const inline = check("Pick one: A) fork B) exec C) wait", ["fork", "exec", "wait"], "A");
+    expect(inline.issues).toEqual([]);
+    expect(inline.warnings).toEqual(["Q1: question text lists no lettered options for 3 choices"]);
+
+    const mismatched = check("Pick one.\n\nA) fork\nB) exec", ["fork", "exec", "wait"], "A");
+    expect(mismatched.issues).toEqual([]);
+    expect(mismatched.warnings).toEqual([
+      "Q1: question text lists 2 options (A-B) but choices has 3",
+    ]);
+
+    const renamed = check(BODY, ["fork", "spawn", "wait"], "B");
+    expect(renamed.issues).toEqual([]);
+    expect(renamed.warnings).toEqual([
+      'Q1: choice B "spawn" does not match option B in the question text: "**exec**"',
+    ]);
+  });
+
+  it("ignores sub-part labels outside the option list", () => {
+    const body = "a) Consider the code below.\n\nA) fork\nB) exec";
+    expect(check(body, ["fork", "exec"], "A")).toEqual({ issues: [], warnings: [] });
+  });
+});
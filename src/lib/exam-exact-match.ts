@@ -0,0 +1,144 @@
+import type { ExamDocument, ExamQuestion } from "./exam-md";
+import type { ExamIssue } from "./exam-schema";
+
+interface BodyOption {
+  letter: string;
+  text: string;
+}
+
+// "A) text", "(B) text", "c. text", "- **D:** text"
+const OPTION_LINE_PATTERN = /^\s*(?:[-*+]\s+)?(?:\*\*|__)?\(?([A-Za-z])[).:](?:\*\*|__)?\s+(.*)$/;
+const TRUE_FALSE_CHOICES = ["True", "False"];
+
+function letterAt(index: number): string {
+  return String.fromCharCode("A".charCodeAt(0) + index);
+}
+
+function normalizeOptionText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/[\s.;,]+$/, "")
+    .trim();
+}
+
+/**
+ * Lettered options listed in the question text: the longest run of option lines
+ * lettered A, B, C, ... in order, so sub-part labels elsewhere are ignored.
+ */
+function findBodyOptions(body: string): BodyOption[] {
+  const options = body
+    .split("\n")
+    .map((line) => line.match(OPTION_LINE_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ letter: match[1].toUpperCase(), text: match[2].trim() }));
+
+  let best: BodyOption[] = [];
+  let run: BodyOption[] = [];
+  for (const option of options) {
+    if (option.letter === letterAt(run.length)) {
+      run.push(option);
+    } else {
+      run = option.letter === "A" ? [option] : [];
+    }
+    if (run.length > best.length) best = [...run];
+  }
+  return best;
+}
+
+function isTrueFalse(choices: string[]): boolean {
+  return (
+    choices.length === 2 &&
+    choices.every((choice) => /^(true|false|t|f)$/i.test(choice.trim()))
+  );
+}
+
+function checkQuestion(question: ExamQuestion, issues: ExamIssue[], warnings: ExamIssue[]): void {
+  const issue = (message: string) => issues.push({ problemId: question.problemId, message });
+  const warning = (message: string) => warnings.push({ problemId: question.problemId, message });
+  const { choices, answer } = question.data;
+  // Missing or malformed choices are reported by the schema check.
+  if (
+    !Array.isArray(choices) ||
+    choices.length < 2 ||
+    !choices.every((choice) => typeof choice === "string")
+  ) {
+    return;
+  }
+
+  const lastLetter = letterAt(choices.length - 1);
+  if (typeof answer === "string") {
+    const letter = answer.trim();
+    if (/^[a-z]$/.test(letter)) {
+      issue(`answer "${answer}" must be an uppercase letter`);
+    } else if (/^(true|false)$/i.test(letter) && isTrueFalse(choices)) {
+      issue(`True/False answer must be a letter (A for True, B for False), got "${answer}"`);
+    } else if (!/^[A-Z]$/.test(letter)) {
+      issue(`answer "${answer}" must be a single letter A-${lastLetter}`);
+    } else if (letter > lastLetter) {
+      issue(`answer "${letter}" is out of range for ${choices.length} choices (A-${lastLetter})`);
+    }
+  }
+
+  if (isTrueFalse(choices)) {
+    if (choices.some((choice, index) => choice.trim() !== TRUE_FALSE_CHOICES[index])) {
+      issue(`True/False choices must be ${JSON.stringify(TRUE_FALSE_CHOICES)}, got ${JSON.stringify(choices)}`);
+    }
+    // True/False statements usually don't list their two options.
+    if (findBodyOptions(question.body).length === 0) return;
+  }
+
+  // Options can be written inline or in ways the parser misses, so mismatches
+  // between the text and `choices` are only warnings.
+  const options = findBodyOptions(question.body);
+  if (options.length === 0) {
+    warning(`question text lists no lettered options for ${choices.length} choices`);
+    return;
+  }
+  if (options.length !== choices.length) {
+    warning(
+      `question text lists ${options.length} options (A-${letterAt(options.length - 1)}) but choices has ${choices.length}`,
+    );
+  }
+
+  options.slice(0, choices.length).forEach((option, index) => {
+    const expected = normalizeOptionText(choices[index]);
+    const listed = normalizeOptionText(option.text);
+    // Multi-line options only show their first line in the option line.
+    const matches = expected === listed || (listed.length > 0 && expected.startsWith(listed));
+    if (!matches) {
+      warning(
+        `choice ${option.letter} ${JSON.stringify(choices[index])} does not match option ${option.letter} in the question text: ${JSON.stringify(option.text)}`,
+      );
+    }
+  });
+}
+
+function checkExactMatch(document: ExamDocument): { issues: ExamIssue[]; warnings: ExamIssue[] } {
+  const issues: ExamIssue[] = [];
+  const warnings: ExamIssue[] = [];
+  for (const question of document.questions) {
+    if (question.data.type === "ExactMatch") {
+      checkQuestion(question, issues, warnings);
+    }
+  }
+  return { issues, warnings };
+}
+
+/**
+ * Checks ExactMatch answers and choices: the answer letter is in range for
+ * `choices`, and True/False questions use ["True", "False"].
+ */
+export function validateExactMatchChoices(document: ExamDocument): ExamIssue[] {
+  return checkExactMatch(document).issues;
+}
+
+/**
+ * ExactMatch questions whose text does not list one lettered option per choice
+ * with the same text. Options are parsed from free text, so these are reported,
+ * not enforced.
+ */
+export function findExactMatchWarnings(document: ExamDocument): ExamIssue[] {
+  return checkExactMatch(document).warnings;
+}
@@ -0,0 +1,217 @@
+import type { ExamDocument, ExamQuestion } from "./exam-md";
+import type { JsonSchema } from "./json-schema";
+import type { LlmJobOptions } from "./llm-client";
+import { trigrams, words } from "./provenance";
+import { callLlmStructured } from "./structured-output";
+
+/**
+ * found: the solutions state the answer (near) verbatim.
+ * paraphrased: the solutions give the same answer in other words.
+ * inferred: the solutions do not give it; the model worked it out or guessed.
+ */
+export type AnswerGrounding = "found" | "paraphrased" | "inferred";
+
+export interface AnswerGroundingResult {
+  problemId: string;
+  /** The answer that was checked, so unchanged answers can be reused after edits. */
+  answer: string;
+  grounding: AnswerGrounding;
+  evidence: string;
+}
+
+export interface GroundExamAnswersOptions extends LlmJobOptions {
+  /** Earlier results; questions whose answer has not changed are not checked again. */
+  known?: AnswerGroundingResult[];
+}
+
+// Shorter answers ("B", "42", "O(n)") occur in any solutions text by chance,
+// so only answers with at least this many words are matched without the model.
+const MIN_LEXICAL_WORDS = 4;
+// Share of the answer's word trigrams that must appear in the solutions.
+const FOUND_TRIGRAM_SCORE = 0.8;
+const MAX_QUOTED_ANSWER_CHARS = 120;
+
+const GROUNDING_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["answers"],
+  additionalProperties: false,
+  properties: {
+    answers: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["problem_id", "grounding", "evidence"],
+        additionalProperties: false,
+        properties: {
+          problem_id: { type: "string", minLength: 1 },
+          grounding: { type: "string", enum: ["found", "paraphrased", "inferred"] },
+          evidence: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const GROUNDING_SYSTEM_PROMPT = `You check whether the answers in a converted exam are supported by the instructor's solutions.
+
+For each question, compare its ANSWER with the SOLUTIONS text and label it:
+- found: the solutions state this answer, word for word or nearly so.
+- paraphrased: the solutions give the same answer in different words, notation or order.
+- inferred: the solutions do not give this answer (missing, different, or only partially covered), so it was worked out from the question.
+
+For multiple-choice answers given as a letter, check that the solutions select that same option.
+Evidence is a short quote from the solutions for found/paraphrased, or one sentence on what is missing for inferred.
+
+Label every question listed. Return the result by calling the record_answer_grounding tool.`;
+
+function answerOf(question: ExamQuestion): string {
+  return typeof question.data.answer === "string" ? question.data.answer.trim() : "";
+}
+
+function matchLexically(
+  answer: string,
+  solutionWords: string,
+  solutionGrams: Set<string>,
+): boolean {
+  const answerWords = words(answer);
+  if (answerWords.length < MIN_LEXICAL_WORDS) return false;
+  if (solutionWords.includes(` ${answerWords.join(" ")} `)) return true;
+
+  const grams = trigrams(answer);
+  let shared = 0;
+  for (const gram of grams) {
+    if (solutionGrams.has(gram)) shared++;
+  }
+  return grams.size > 0 && shared / grams.size >= FOUND_TRIGRAM_SCORE;
+}
+
+function formatQuestionForGrounding(question: ExamQuestion): string {
+  const { choices } = question.data;
+  const choiceLines = Array.isArray(choices)
+    ? `\nCHOICES:\n${choices
+        .map((choice, index) => `${String.fromCharCode(65 + index)}. ${String(choice)}`)
+        .join("\n")}`
+    : "";
+  return `=== QUESTION ${question.problemId} ===\n${question.body.trim()}${choiceLines}\nANSWER: ${answerOf(question)}`;
+}
+
+/**
+ * Labels each question's answer as found in, paraphrased from, or inferred
+ * beyond the solutions text. Long answers that appear in the solutions are
+ * matched locally; the rest go to the model in one structured call.
+ */
+export async function groundExamAnswers(
+  document: ExamDocument,
+  solutionsText: string,
+  apiKey: string,
+  options: GroundExamAnswersOptions = {},
+): Promise<AnswerGroundingResult[]> {
+  const { known = [], ...llm } = options;
+  const solutionWords = ` ${words(solutionsText).join(" ")} `;
+  const solutionGrams = trigrams(solutionsText);
+
+  const results = new Map<ExamQuestion, AnswerGroundingResult>();
+  const pending: ExamQuestion[] = [];
+  for (const question of document.questions) {
+    const answer = answerOf(question);
+    const previous = known.find(
+      (result) => result.problemId === question.problemId && result.answer === answer,
+    );
+    if (previous) {
+      results.set(question, previous);
+    } else if (!answer || /^unknown\.?$/i.test(answer)) {
+      results.set(question, {
+        problemId: question.problemId,
+        answer,
+        grounding: "inferred",
+        evidence: "no answer was given",
+      });
+    } else if (matchLexically(answer, solutionWords, solutionGrams)) {
+      results.set(question, {
+        problemId: question.problemId,
+        answer,
+        grounding: "found",
+        evidence: "answer text appears in the solutions",
+      });
+    } else {
+      pending.push(question);
+    }
+  }
+
+  if (pending.length > 0) {
+    const { answers } = await callLlmStructured<{
+      answers: Array<{ problem_id: string; grounding: AnswerGrounding; evidence: string }>;
+    }>(
+      [
+        { role: "system", content: GROUNDING_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: `=== SOLUTIONS ===\n${solutionsText}\n\n${pending.map(formatQuestionForGrounding).join("\n\n")}`,
+        },
+      ],
+      apiKey,
+      "grounding",
+      {
+        toolName: "record_answer_grounding",
+        description: "Record how well each answer is supported by the solutions.",
+        schema: GROUNDING_SCHEMA,
+      },
+      llm,
+    );
+
+    for (const question of pending) {
+      const labelled = answers.find((entry) => entry.problem_id === question.problemId);
+      results.set(question, {
+        problemId: question.problemId,
+        answer: answerOf(question),
+        // Unlabelled answers are treated as unverified rather than dropped.
+        grounding: labelled?.grounding ?? "inferred",
+        evidence: labelled?.evidence.trim() || "not labelled by the grounding check",
+      });
+    }
+  }
+
+  return document.questions.map((question) => results.get(question)!);
+}
+
+function shorten(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_QUOTED_ANSWER_CHARS
+    ? `${flat.slice(0, MAX_QUOTED_ANSWER_CHARS - 1)}…`
+    : flat;
+}
+
+/** Job log lines: a count per label, then one line per inferred answer. */
+export function formatGroundingLog(results: AnswerGroundingResult[]): string[] {
+  const count = (grounding: AnswerGrounding) =>
+    results.filter((result) => result.grounding === grounding).length;
+  return [
+    `${count("found")} found, ${count("paraphrased")} paraphrased, ${count("inferred")} inferred`,
+    ...results
+      .filter((result) => result.grounding === "inferred")
+      .map(
+        (result) =>
+          `Q${result.problemId}: inferred "${shorten(result.answer)}" (${result.evidence})`,
+      ),
+  ];
+}
+
+/** Markdown section for the PR body listing inferred answers, or "" if there are none. */
+export function formatInferredAnswers(results: AnswerGroundingResult[]): string {
+  const inferred = results.filter((result) => result.grounding === "inferred");
+  if (inferred.length === 0) return "";
+
+  const cell = (text: string) => shorten(text).replace(/\|/g, "\\|");
+  return [
+    "## Answers to double-check",
+    "",
+    "These answers are not stated in the solutions file and were inferred during conversion.",
+    "",
+    "| Question | Answer | Note |",
+    "| --- | --- | --- |",
+    ...inferred.map(
+      (result) =>
+        `| ${result.problemId} | ${cell(result.answer || "(empty)")} | ${cell(result.evidence)} |`,
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { findAnswerLeaks, getLeakCheckMode, type LeakSources } from "./exam-leakage";
+import { parseExamMd } from "./exam-md";
+import { formatExamIssues } from "./exam-schema";
+
+const SOURCES: LeakSources = {
+  examText:
+    "Question 3. A process calls fork twice in a row. How many processes exist afterwards?",
+  solutionsText:
+    "Question 3. Four processes: each fork doubles the number of running processes so two calls give four in total.",
+};
+
+function leaks(body: string, data: Record<string, unknown> = {}, sources = SOURCES): string[] {
+  const block = {
+    problem_id: "3",
+    points: 2,
+    type: "Freeform",
+    tags: ["processes"],
+    answer: "4",
+    llm_judge_instructions: "Award 2 points for 4.",
+    ...data,
+  };
+  const document = parseExamMd(
+    `## Question 3 [2 points]\n\n${body}\n\n\`\`\`json\n${JSON.stringify(block)}\n\`\`\`\n`,
+  );
+  return formatExamIssues(findAnswerLeaks(document, sources));
+}
+
+describe("findAnswerLeaks", () => {
+  it("accepts question text taken from the exam", () => {
+    const body = "A process calls fork twice in a row. How many processes exist afterwards?";
+    expect(leaks(body)).toEqual([]);
+  });
+
+  it("flags solution labels unless only a blank follows", () => {
+    expect(leaks("How many processes exist?\n\n**Answer:** 4")).toEqual([
+      'Q3: question text contains a solution label: "**Answer:** 4"',
+    ]);
+    expect(leaks("How many processes exist?\n\nAnswer: ________")).toEqual([]);
+  });
+
+  it("flags marked and highlighted choices", () => {
+    expect(leaks("How many?\n\nA) 2\nB) 4 ✓\nC) 8", { type: "ExactMatch" })).toEqual([
+      'Q3: question text marks a choice as correct: "B) 4 ✓"',
+    ]);
+    expect(leaks("How many?\n\nA) 2\n**B) 4**\nC) 8", { type: "ExactMatch" })).toEqual([
+      'Q3: question text highlights one choice: "**B) 4**"',
+    ]);
+  });
+
+  it("flags phrases repeated from the answer but not from the exam", () => {
+    const answer = "Each call to fork duplicates every existing process, giving four.";
+    expect(
+      leaks("How many processes exist? Hint: each call to fork duplicates every existing process.", {
+        answer,
+      }),
+    ).toEqual([
+      'Q3: question text repeats its answer: "each call to fork duplicates every existing process"',
+    ]);
+  });
+
+  it("flags wording found only in the solutions", () => {
+    expect(
+      leaks(
+        "How many processes exist, given that each fork doubles the number of running processes so two calls give four?",
+      ),
+    ).toEqual([
+      'Q3: question text contains solutions-only wording: "each fork doubles the number of running processes so two calls give …"',
+    ]);
+  });
+});
+
+describe("getLeakCheckMode", () => {
+  const original = process.env.SIB_LEAK_CHECK;
+  afterEach(() => {
+    if (original === undefined) delete process.env.SIB_LEAK_CHECK;
+    else process.env.SIB_LEAK_CHECK = original;
+  });
+
+  it("defaults to warn", () => {
+    delete process.env.SIB_LEAK_CHECK;
+    expect(getLeakCheckMode()).toBe("warn");
+    process.env.SIB_LEAK_CHECK = "bogus";
+    expect(getLeakCheckMode()).toBe("warn");
+    process.env.SIB_LEAK_CHECK = "REPAIR";
+    expect(getLeakCheckMode()).toBe("repair");
+  });
+});
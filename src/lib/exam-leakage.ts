@@ -0,0 +1,133 @@
+import type { ExamDocument, ExamQuestion } from "./exam-md";
+import type { ExamIssue } from "./exam-schema";
+import { trigrams, wordTrigrams, words } from "./provenance";
+
+export interface LeakSources {
+  examText: string;
+  solutionsText: string;
+}
+
+/** off: skip the check; warn: log likely leaks; repair: treat them as issues for the repair pass. */
+export type LeakCheckMode = "off" | "warn" | "repair";
+
+// Shortest shared phrase, in words, that counts as a leak. Answers and rubrics
+// are short, so a few words are telling; solutions share more incidental wording.
+const MIN_ANSWER_PHRASE_WORDS = 5;
+const MIN_SOLUTIONS_PHRASE_WORDS = 8;
+const MAX_QUOTED_WORDS = 12;
+
+// "Solution:", "**Answer:** ...", "Answer key -" and the like, unless only a blank follows.
+const SOLUTION_LABEL_PATTERN =
+  /^[\s>*_#-]*(solutions?|answers?|sample answer|model answer|answer key|correct answer|marking scheme|rubric)[*_\s]*[:\-–][*_\s]*(.*)$/i;
+const BLANK_PATTERN = /^[\s_.…\\-]*$/;
+const OPTION_LINE_PATTERN = /^\s*(?:[-*+]\s+)?(?:\*\*|__)?\(?[A-Ha-h][).:]\s/;
+const MARKED_OPTION_PATTERN = /✓|✔|☑|\(correct\)|\[x\]|<mark>|==[^=]+==/i;
+const BOLD_OPTION_PATTERN = /^\s*(?:[-*+]\s+)?(?:\*\*|__).+(?:\*\*|__)\s*$/;
+
+export function getLeakCheckMode(): LeakCheckMode {
+  const mode = (process.env.SIB_LEAK_CHECK || "warn").toLowerCase();
+  return mode === "off" || mode === "repair" ? mode : "warn";
+}
+
+/**
+ * Longest run of body words whose trigrams all occur in `source` but not in
+ * `exclude`, or null if it is shorter than `minWords`. Excluding the exam text
+ * keeps answers that restate the question from counting as leaks.
+ */
+function findSharedPhrase(
+  bodyWords: string[],
+  source: Set<string>,
+  exclude: Set<string>,
+  minWords: number,
+): string | null {
+  const grams = wordTrigrams(bodyWords);
+  let best = { start: 0, length: 0 };
+  let runStart = 0;
+  for (let i = 0; i <= grams.length; i++) {
+    const shared = i < grams.length && source.has(grams[i]) && !exclude.has(grams[i]);
+    if (shared) continue;
+    if (i - runStart > best.length) best = { start: runStart, length: i - runStart };
+    runStart = i + 1;
+  }
+
+  // A run of n trigrams covers n + 2 words.
+  const phraseWords = best.length > 0 ? best.length + 2 : 0;
+  if (phraseWords < minWords) return null;
+  const quoted = bodyWords.slice(best.start, best.start + Math.min(phraseWords, MAX_QUOTED_WORDS));
+  return `${quoted.join(" ")}${phraseWords > MAX_QUOTED_WORDS ? " …" : ""}`;
+}
+
+function checkMarkers(question: ExamQuestion, issue: (message: string) => void): void {
+  const lines = question.body.split("\n");
+
+  for (const line of lines) {
+    const label = line.match(SOLUTION_LABEL_PATTERN);
+    if (label && !BLANK_PATTERN.test(label[2])) {
+      issue(`question text contains a solution label: "${line.trim()}"`);
+    }
+  }
+
+  const options = lines.filter((line) => OPTION_LINE_PATTERN.test(line));
+  for (const option of options) {
+    if (MARKED_OPTION_PATTERN.test(option)) {
+      issue(`question text marks a choice as correct: "${option.trim()}"`);
+    }
+  }
+  // One bold option among plain ones is a highlighted answer, not formatting.
+  const bold = options.filter((option) => BOLD_OPTION_PATTERN.test(option));
+  if (options.length > 1 && bold.length === 1) {
+    issue(`question text highlights one choice: "${bold[0].trim()}"`);
+  }
+}
+
+/**
+ * Flags question text that gives away its answer: solution labels, choices
+ * marked as correct, and phrases shared with the question's own answer or
+ * rubric, or with the solutions file but not the exam. Deterministic, so it
+ * can run on every validation pass; matches are likely leaks, not proof.
+ */
+export function findAnswerLeaks(document: ExamDocument, sources: LeakSources): ExamIssue[] {
+  const issues: ExamIssue[] = [];
+  const examGrams = trigrams(sources.examText);
+  const solutionsGrams = trigrams(sources.solutionsText);
+
+  for (const question of document.questions) {
+    const issue = (message: string) => issues.push({ problemId: question.problemId, message });
+    checkMarkers(question, issue);
+
+    const bodyWords = words(question.body);
+    const fields: Array<[string, unknown]> = [
+      ["answer", question.data.answer],
+      ["llm_judge_instructions", question.data.llm_judge_instructions],
+    ];
+    let reported = false;
+    for (const [field, value] of fields) {
+      if (typeof value !== "string") continue;
+      const phrase = findSharedPhrase(
+        bodyWords,
+        trigrams(value),
+        examGrams,
+        MIN_ANSWER_PHRASE_WORDS,
+      );
+      if (phrase) {
+        issue(`question text repeats its ${field}: "${phrase}"`);
+        reported = true;
+      }
+    }
+
+    // Most answers come from the solutions, so only report what the fields above missed.
+    if (!reported) {
+      const phrase = findSharedPhrase(
+        bodyWords,
+        solutionsGrams,
+        examGrams,
+        MIN_SOLUTIONS_PHRASE_WORDS,
+      );
+      if (phrase) {
+        issue(`question text contains solutions-only wording: "${phrase}"`);
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { getMetadataString, parseExamMd, serializeExamMd, setBlockData } from "./exam-md";
+
+const EXAM_MD = `# Operating Systems Midterm
+
+\`\`\`json
+{
+  "exam_id": "os_midterm_2024",
+  "test_paper_name": "Midterm",
+  "course": "Operating Systems",
+  "institution": "Example University",
+  "year": 2024,
+  "score_total": 7,
+  "num_questions": 2
+}
+\`\`\`
+
+---
+
+## Question 1 [2 points]
+
+Which call creates a new process?
+
+A) fork
+B) exec
+
+\`\`\`json
+{"problem_id": "1", "points": 2, "type": "ExactMatch", "tags": ["processes"], "choices": ["fork", "exec"], "answer": "A"}
+\`\`\`
+
+---
+
+## Question 2b [5 points]
+
+
+Explain   copy-on-write.
+
+\`\`\`json
+{"problem_id": "2b", "points": 5, "type": "Freeform", "tags": ["memory"], "answer": "Pages are shared until written.", "llm_judge_instructions": "Award 5 points."}
+\`\`\`
+
+Trailing notes.
+`;
+
+describe("parseExamMd", () => {
+  it("round-trips any input unchanged", () => {
+    expect(serializeExamMd(parseExamMd(EXAM_MD))).toBe(EXAM_MD);
+    for (const text of ["", "no blocks at all\n", "```json\nnot json\n```", "```json\n[1, 2]\n```\r\n"]) {
+      expect(serializeExamMd(parseExamMd(text))).toBe(text);
+    }
+  });
+
+  it("reads the title, metadata and questions", () => {
+    const document = parseExamMd(EXAM_MD);
+    expect(document.title).toBe("Operating Systems Midterm");
+    expect(getMetadataString(document, "exam_id")).toBe("os_midterm_2024");
+    expect(document.questions.map((question) => question.problemId)).toEqual(["1", "2b"]);
+    expect(document.trailing).toBe("\n\nTrailing notes.\n");
+  });
+
+  it("keeps heading lines to the heading itself", () => {
+    const [first, second] = parseExamMd(EXAM_MD).questions;
+    expect(first.heading).toEqual({ line: "## Question 1 [2 points]", label: "1", points: 2 });
+    expect(second.heading?.line).toBe("## Question 2b [5 points]");
+    expect(second.body).toBe("Explain   copy-on-write.");
+    expect(first.body).toBe("Which call creates a new process?\n\nA) fork\nB) exec");
+  });
+
+  it("keeps invalid JSON blocks as unparsed segments", () => {
+    const document = parseExamMd("```json\n{ broken\n```\n");
+    expect(document.segments).toHaveLength(1);
+    expect(document.segments[0].block.data).toBeNull();
+    expect(document.metadata).toBeNull();
+    expect(document.questions).toEqual([]);
+  });
+
+  it("re-renders only the blocks that were changed", () => {
+    const document = parseExamMd(EXAM_MD);
+    const question = document.questions[1];
+    setBlockData(question.segment.block, { ...question.data, points: 4 });
+    const serialized = serializeExamMd(document);
+    expect(serialized).toContain('"points": 4');
+    expect(serialized).toContain('{"problem_id": "1", "points": 2');
+    expect(parseExamMd(serialized).questions[1].data.points).toBe(4);
+  });
+});
@@ -0,0 +1,165 @@
+export interface ExamMetadata {
+  exam_id?: unknown;
+  test_paper_name?: unknown;
+  course?: unknown;
+  institution?: unknown;
+  year?: unknown;
+  score_total?: unknown;
+  num_questions?: unknown;
+  [key: string]: unknown;
+}
+
+export interface ExamQuestionData {
+  problem_id: unknown;
+  points?: unknown;
+  type?: unknown;
+  tags?: unknown;
+  choices?: unknown;
+  answer?: unknown;
+  llm_judge_instructions?: unknown;
+  [key: string]: unknown;
+}
+
+export interface ExamJsonBlock {
+  /** Text between the fences, exactly as written. */
+  source: string;
+  /** Parsed object, or null if `source` is not a JSON object. */
+  data: Record<string, unknown> | null;
+}
+
+export interface ExamSegment {
+  /** Markdown between the previous JSON block (or the start of the file) and this one. */
+  text: string;
+  block: ExamJsonBlock;
+}
+
+export interface ExamQuestionHeading {
+  line: string;
+  /** Question label as written, e.g. "3" or "8b". */
+  label: string;
+  points: number | null;
+}
+
+export interface ExamQuestion {
+  problemId: string;
+  heading: ExamQuestionHeading | null;
+  /** Question text between the heading and the JSON block, without separators. */
+  body: string;
+  data: ExamQuestionData;
+  segment: ExamSegment;
+}
+
+export interface ExamDocument {
+  segments: ExamSegment[];
+  /** Markdown after the last JSON block. */
+  trailing: string;
+  /** Text of the first "# " heading before the metadata block. */
+  title: string | null;
+  metadata: ExamMetadata | null;
+  metadataSegment: ExamSegment | null;
+  questions: ExamQuestion[];
+}
+
+const JSON_BLOCK_REGEX = /```json\n([\s\S]*?)\n```/g;
+// [ \t] rather than \s, so the match and `heading.line` stay on the heading line.
+const QUESTION_HEADING_REGEX =
+  /^##[ \t]+Question[ \t]+(\S+?)[ \t]*(?:\[[ \t]*(\d+(?:\.\d+)?)[ \t]*points?(?:\(s\))?[ \t]*\])?[ \t]*$/m;
+
+function parseJsonObject(source: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(source);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isQuestionData(
+  data: Record<string, unknown> | null,
+): data is ExamQuestionData {
+  return data !== null && Object.prototype.hasOwnProperty.call(data, "problem_id");
+}
+
+function parseQuestion(segment: ExamSegment): ExamQuestion | null {
+  const data = segment.block.data;
+  if (!isQuestionData(data)) return null;
+
+  const match = segment.text.match(QUESTION_HEADING_REGEX);
+  const heading: ExamQuestionHeading | null = match
+    ? {
+        line: match[0],
+        label: match[1],
+        points: match[2] !== undefined ? Number(match[2]) : null,
+      }
+    : null;
+  const afterHeading = match
+    ? segment.text.slice((match.index ?? 0) + match[0].length)
+    : segment.text;
+
+  return {
+    problemId: String(data.problem_id),
+    heading,
+    body: afterHeading.replace(/^\s*---\s*$/gm, "").trim(),
+    data,
+    segment,
+  };
+}
+
+/**
+ * Parses exam.md into its JSON blocks and the markdown around them. Nothing is
+ * normalized: `serializeExamMd(parseExamMd(text)) === text` for any input.
+ */
+export function parseExamMd(markdown: string): ExamDocument {
+  const segments: ExamSegment[] = [];
+  let previousEnd = 0;
+  for (const match of markdown.matchAll(JSON_BLOCK_REGEX)) {
+    const start = match.index ?? 0;
+    segments.push({
+      text: markdown.slice(previousEnd, start),
+      block: { source: match[1], data: parseJsonObject(match[1]) },
+    });
+    previousEnd = start + match[0].length;
+  }
+
+  // Only the first block can be the metadata, and only if it is not a question.
+  const first = segments[0];
+  const metadataSegment =
+    first && first.block.data && !isQuestionData(first.block.data) ? first : null;
+  const title = (first ? first.text : markdown).match(/^#\s+(.+?)\s*$/m)?.[1] ?? null;
+
+  return {
+    segments,
+    trailing: markdown.slice(previousEnd),
+    title,
+    metadata: metadataSegment?.block.data ?? null,
+    metadataSegment,
+    questions: segments
+      .map(parseQuestion)
+      .filter((question): question is ExamQuestion => question !== null),
+  };
+}
+
+export function serializeExamMd(document: ExamDocument): string {
+  return (
+    document.segments
+      .map((segment) => `${segment.text}\`\`\`json\n${segment.block.source}\n\`\`\``)
+      .join("") + document.trailing
+  );
+}
+
+/** Replaces a block's data and re-renders its source the way exam.md is written. */
+export function setBlockData(block: ExamJsonBlock, data: Record<string, unknown>): void {
+  block.data = data;
+  block.source = JSON.stringify(data, null, 2);
+}
+
+/** Reads a metadata string field, or undefined if it is missing or not a string. */
+export function getMetadataString(
+  document: ExamDocument,
+  field: keyof ExamMetadata,
+): string | undefined {
+  const value = document.metadata?.[field];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
@@ -0,0 +1,396 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { runDockerJob } from "./docker-runner";
+import type { ExamDraftFile } from "./exam-drafts";
+import { formatInferredAnswers, type AnswerGroundingResult } from "./exam-grounding";
+import { getMetadataString, type ExamDocument } from "./exam-md";
+import { fixtureFetch } from "./http-fixtures";
+import { callLlm, type LlmJobOptions } from "./llm-client";
+import type { ExtractedFigure } from "./pdf-figures";
+import { formatSourcePages, locateQuestionSources } from "./provenance";
+
+export interface PublishExamParams {
+  apiKey: string;
+  /** Validated exam.md and its parsed form. */
+  examMd: string;
+  document: ExamDocument;
+  /** exam_id given by the uploader; otherwise read from the metadata block. */
+  examId?: string;
+  examFileName: string;
+  examText: string;
+  solutionsText: string;
+  solutionsFile: ExamDraftFile;
+  referenceFiles: ExamDraftFile[];
+  figures: ExtractedFigure[];
+  grounding: AnswerGroundingResult[];
+  githubUsername: string;
+  githubToken: string;
+  /** Null skips the Docker worker (record/replay runs). */
+  docker: { image: string; repoUrl: string } | null;
+  llm: LlmJobOptions;
+}
+
+export interface PublishExamResult {
+  examId: string;
+  prUrl: string;
+}
+
+const PR_BODY_SYSTEM_PROMPT = `You write GitHub pull request descriptions.
+
+Fill out the template exactly. Keep the section headings and checklist intact.
+Use concise, factual sentences. Do not add extra sections or commentary.
+Output ONLY the completed template.`;
+
+const PR_TITLE_SYSTEM_PROMPT = `You generate GitHub pull request titles.
+
+Output EXACTLY this format:
+add <course> <season> <year> <exam type>
+
+Rules:
+- Use lowercase.
+- Course should be a short code (e.g., comp3000, cs537).
+- Season must be one of: fall, winter, spring, summer.
+- Year must be 4 digits.
+- Exam type must be "final", "midterm", "quiz", or "exam".
+- Output ONLY the title line, no punctuation or quotes.`;
+
+
+function buildPullRequestTitleFallback(examId: string): string {
+  const tokens = examId.toLowerCase().split("_");
+  const seasons = new Set(["fall", "winter", "spring", "summer", "autumn"]);
+  const seasonIndex = tokens.findIndex((token) => seasons.has(token));
+
+  if (seasonIndex > 0 && seasonIndex + 2 < tokens.length) {
+    const course = tokens.slice(0, seasonIndex).join(" ");
+    const season = tokens[seasonIndex];
+    const year = tokens[seasonIndex + 1];
+    const examType = tokens.slice(seasonIndex + 2).join(" ");
+
+    if (/^\d{4}$/.test(year) && examType) {
+      return `add ${course} ${season} ${year} ${examType}`.replace(/\s+/g, " ");
+    }
+  }
+
+  return `add ${examId.replace(/_/g, " ")}`.replace(/\s+/g, " ");
+}
+
+async function createOrGetPullRequest(params: {
+  githubUsername: string;
+  githubToken: string;
+  branchName: string;
+  title: string;
+  body: string;
+  signal?: AbortSignal;
+}): Promise<string> {
+  const { githubUsername, githubToken, branchName, title, body, signal } =
+    params;
+  const owner = "sys-intelligence";
+  const repo = "system-intelligence-benchmark";
+  const base = "main";
+  const head = `${githubUsername}:${branchName}`;
+  const apiBase = `https://api.github.com/repos/${owner}/${repo}`;
+
+  const headers = {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${githubToken}`,
+    "X-GitHub-Api-Version": "2022-11-28",
+  };
+
+  const listResponse = await fixtureFetch(
+    `${apiBase}/pulls?state=open&base=${base}&head=${encodeURIComponent(head)}`,
+    { headers, signal },
+  );
+  if (!listResponse.ok) {
+    const errorText = await listResponse.text();
+    throw new Error(
+      `GitHub PR lookup failed: ${listResponse.status} - ${errorText}`,
+    );
+  }
+
+  const existing = (await listResponse.json()) as Array<{ html_url?: string }>;
+  if (existing.length > 0 && existing[0]?.html_url) {
+    return existing[0].html_url;
+  }
+
+  const createResponse = await fixtureFetch(`${apiBase}/pulls`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      title,
+      head,
+      base,
+      body,
+      draft: true,
+      maintainer_can_modify: true,
+    }),
+    signal,
+  });
+
+  if (!createResponse.ok) {
+    const errorText = await createResponse.text();
+    throw new Error(
+      `GitHub PR create failed: ${createResponse.status} - ${errorText}`,
+    );
+  }
+
+  const created = (await createResponse.json()) as { html_url?: string };
+  if (!created?.html_url) {
+    throw new Error("GitHub PR create response missing html_url");
+  }
+
+  return created.html_url;
+}
+
+async function buildPullRequestTitle(params: {
+  apiKey: string;
+  examId: string;
+  examTitle: string;
+  course?: string;
+  year?: string;
+  llm?: LlmJobOptions;
+}): Promise<string> {
+  const { apiKey, examId, examTitle, course, year, llm } = params;
+  const userPrompt = `Context:
+- exam_id: ${examId}
+- test_paper_name: ${examTitle}
+- course: ${course || "unknown"}
+- year: ${year || "unknown"}
+
+Generate the title.`;
+
+  const title = await callLlm(
+    [
+      { role: "system", content: PR_TITLE_SYSTEM_PROMPT },
+      { role: "user", content: userPrompt },
+    ],
+    apiKey,
+    "prTitle",
+    llm,
+  );
+
+  const cleaned = title.trim().split("\n")[0].toLowerCase();
+  const isValid = /^add [a-z0-9]+ [a-z]+ \d{4} (final|midterm|quiz|exam)$/.test(
+    cleaned,
+  );
+  if (!isValid) {
+    return buildPullRequestTitleFallback(examId);
+  }
+
+  return cleaned;
+}
+
+async function buildPullRequestBody(params: {
+  apiKey: string;
+  examTitle: string;
+  examId: string;
+  examDir: string;
+  solutionFileName: string;
+  referenceFileNames: string[];
+  figureFileNames: string[];
+  inferredAnswers: string;
+  sourcePages: string;
+  llm?: LlmJobOptions;
+}): Promise<string> {
+  const {
+    apiKey,
+    examTitle,
+    examId,
+    examDir,
+    solutionFileName,
+    referenceFileNames,
+    figureFileNames,
+    inferredAnswers,
+    sourcePages,
+    llm,
+  } = params;
+
+  const template = `## Description
+
+Brief description of what this PR does.
+
+## Changes
+
+- Change 1
+- Change 2
+- Change 3
+
+## Testing
+
+How was this tested?
+
+## Checklist
+
+- [ ] Tests pass locally
+- [ ] Code follows project style guidelines
+- [ ] Documentation updated (if needed)
+`;
+
+  const refList =
+    referenceFileNames.length > 0 ? referenceFileNames.join(", ") : "None";
+
+  const userPrompt = `Fill the template using this context:
+- Exam title: ${examTitle}
+- Exam ID: ${examId}
+- Exam directory: ${examDir}
+- Solutions file: ${solutionFileName}
+- Reference files: ${refList}
+- Figures extracted from the exam PDF: ${figureFileNames.length > 0 ? figureFileNames.join(", ") : "None"}
+- Testing performed: python3 courseexam/prepare.py
+
+Template:
+${template}
+`;
+
+  const body = await callLlm(
+    [
+      { role: "system", content: PR_BODY_SYSTEM_PROMPT },
+      { role: "user", content: userPrompt },
+    ],
+    apiKey,
+    "prBody",
+    llm,
+  );
+
+  // Appended as-is so answers and page numbers never go through the model.
+  return `${[body.trim(), inferredAnswers, sourcePages].filter(Boolean).join("\n\n")}\n`;
+}
+
+/**
+ * Stages a validated exam.md with its solutions, references and figures, runs
+ * the Docker worker that commits and pushes them, and opens the draft PR.
+ */
+export async function publishExam(
+  params: PublishExamParams,
+): Promise<PublishExamResult> {
+  const { apiKey, examMd, document, githubUsername, githubToken, llm } = params;
+  const log = llm.onLog ?? ((msg: string) => console.log(msg));
+
+  const examId =
+    params.examId ||
+    getMetadataString(document, "exam_id") ||
+    `exam_${Date.now()}`;
+  log(`ID: ${examId}`);
+
+  const paperName = getMetadataString(document, "test_paper_name");
+  const examCourse = getMetadataString(document, "course");
+  const rawYear = document.metadata?.year;
+  const examYear =
+    typeof rawYear === "number" || typeof rawYear === "string"
+      ? String(rawYear).match(/^\d+$/)?.[0]
+      : undefined;
+
+  let branchName = examId.replace(/_/g, "-");
+  if (!branchName || branchName === `exam-${Date.now()}`.replace(/_/g, "-")) {
+    const coursePart = examCourse
+      ? examCourse.toLowerCase().replace(/\s+/g, "")
+      : "exam";
+    const yearPart = examYear ?? new Date().getFullYear();
+    const typePart = examId.includes("final")
+      ? "final"
+      : examId.includes("midterm")
+        ? "midterm"
+        : "exam";
+    branchName = `${coursePart}-${yearPart}-${typePart}`;
+  }
+
+  const examTitle = (paperName ?? examId)
+    .replace(/[()]/g, "")
+    .replace(/"/g, "'");
+
+  log(`Locating source pages...`);
+  const sources = locateQuestionSources(document, params.examText, params.solutionsText);
+  const located = sources.filter((source) => source.examPages.length > 0);
+  log(`  ${located.length}/${sources.length} question(s) matched to exam pages`);
+
+  // Figures the questions never reference would only clutter the PR.
+  const stagedFigures = params.figures.filter((figure) =>
+    examMd.includes(`(${figure.fileName})`),
+  );
+  if (stagedFigures.length < params.figures.length) {
+    log(
+      `  ${params.figures.length - stagedFigures.length} unreferenced figure(s) not staged`,
+    );
+  }
+
+  const jobDir = await fs.mkdtemp(path.join(os.tmpdir(), "sib-exam-"));
+  const inputDir = path.join(jobDir, "input");
+  await fs.mkdir(inputDir, { recursive: true });
+
+  try {
+    log(`Staging files...`);
+    await fs.writeFile(path.join(inputDir, "exam.md"), examMd, "utf-8");
+
+    const fileNames = ["exam.md"];
+    for (const file of [params.solutionsFile, ...params.referenceFiles, ...stagedFigures]) {
+      const name = "fileName" in file ? file.fileName : file.name;
+      await fs.writeFile(path.join(inputDir, name), file.data);
+      fileNames.push(name);
+    }
+    log(`  ${fileNames.join(", ")}`);
+
+    log(`Running Docker worker...`);
+    if (!params.docker) {
+      log(`  skipped (SIB_HTTP_MODE=replay)`);
+    } else {
+      await runDockerJob({
+        image: params.docker.image,
+        jobDir,
+        env: {
+          JOB_DIR: "/job",
+          REPO_URL: params.docker.repoUrl,
+          EXAM_ID: examId,
+          BRANCH_NAME: branchName,
+          GITHUB_USERNAME: githubUsername,
+          GITHUB_TOKEN: githubToken,
+          COMMIT_TITLE: `add ${examTitle}`,
+        },
+        log,
+        redact: [githubToken],
+        signal: llm.signal,
+      });
+    }
+  } finally {
+    try {
+      await fs.rm(jobDir, { recursive: true, force: true });
+    } catch {}
+  }
+
+  log(`Creating pull request...`);
+  try {
+    const prTitle = await buildPullRequestTitle({
+      apiKey,
+      examId,
+      examTitle,
+      course: examCourse,
+      year: examYear,
+      llm,
+    });
+    const prBody = await buildPullRequestBody({
+      apiKey,
+      examTitle,
+      examId,
+      examDir: `benchmarks/courseexam_bench/data/raw/${examId}`,
+      solutionFileName: params.solutionsFile.name,
+      referenceFileNames: params.referenceFiles.map((refFile) => refFile.name),
+      figureFileNames: stagedFigures.map((figure) => figure.fileName),
+      inferredAnswers: formatInferredAnswers(params.grounding),
+      sourcePages: formatSourcePages(sources, params.examFileName, params.solutionsFile.name),
+      llm,
+    });
+    const prUrl = await createOrGetPullRequest({
+      githubUsername,
+      githubToken,
+      branchName,
+      title: prTitle,
+      body: prBody,
+      signal: llm.signal,
+    });
+    log(`  ${prUrl}`);
+    return { examId, prUrl };
+  } catch (error: unknown) {
+    if (llm.signal?.aborted) throw error;
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to create pull request: ${errorMsg}`);
+  }
+}
@@ -0,0 +1,184 @@
+import { normalizeExamMetadataAndTags } from "./exam-checks";
+import { parseExamMd, serializeExamMd, type ExamDocument, type ExamSegment } from "./exam-md";
+import { formatExamIssues, type ExamIssue } from "./exam-schema";
+import type { JsonSchema } from "./json-schema";
+import type { LlmJobOptions } from "./llm-client";
+import { callLlmStructured } from "./structured-output";
+
+export type ExamValidator = (
+  document: ExamDocument,
+) => ExamIssue[] | Promise<ExamIssue[]>;
+
+export interface RepairExamOptions extends LlmJobOptions {
+  validate: ExamValidator;
+  /** Repair passes after the first validation. Defaults to SIB_REPAIR_MAX_ATTEMPTS. */
+  maxAttempts?: number;
+}
+
+export interface RepairExamResult {
+  examMd: string;
+  document: ExamDocument;
+  /** Issues still open after the last attempt; empty when the exam is valid. */
+  issues: ExamIssue[];
+  attempts: number;
+}
+
+const DEFAULT_REPAIR_MAX_ATTEMPTS = 2;
+
+const REPAIR_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["blocks"],
+  additionalProperties: false,
+  properties: {
+    blocks: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["block", "markdown"],
+        additionalProperties: false,
+        properties: {
+          block: { type: "integer", minimum: 1 },
+          markdown: { type: "string", minLength: 1 },
+        },
+      },
+    },
+  },
+};
+
+const REPAIR_SYSTEM_PROMPT = `You repair individual blocks of a CourseExam exam.md file that failed validation.
+
+Each block is the markdown before one \`\`\`json block plus that JSON block: the separator, the "## Question N [P points]" heading, the question text, and the JSON. Block 1 is usually the exam title and metadata.
+
+Fix ONLY the listed problems. Keep everything else exactly as written, including question wording, code, figure references and separators. Do not add, remove, merge or renumber questions. Do not put answers or solutions in the question text.
+
+Return each repaired block in full, ending with its closing \`\`\` fence, by calling the record_repaired_blocks tool.`;
+
+export function getRepairMaxAttempts(): number {
+  const value = Number(process.env.SIB_REPAIR_MAX_ATTEMPTS);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_REPAIR_MAX_ATTEMPTS;
+}
+
+function renderSegment(segment: ExamSegment): string {
+  return `${segment.text}\`\`\`json\n${segment.block.source}\n\`\`\``;
+}
+
+// Question issues point at their question's block; exam-level issues point at the
+// metadata block and at any block that is not a valid question.
+function groupIssuesBySegment(
+  document: ExamDocument,
+  issues: ExamIssue[],
+): Map<number, ExamIssue[]> {
+  const groups = new Map<number, ExamIssue[]>();
+  const add = (index: number, issue: ExamIssue) =>
+    groups.set(index, [...(groups.get(index) ?? []), issue]);
+
+  for (const issue of issues) {
+    if (issue.problemId !== null) {
+      document.questions
+        .filter((question) => question.problemId === issue.problemId)
+        .forEach((question) => add(document.segments.indexOf(question.segment), issue));
+      continue;
+    }
+    document.segments.forEach((segment, index) => {
+      const isMetadata = segment === document.metadataSegment;
+      const isQuestion = document.questions.some((question) => question.segment === segment);
+      if (isMetadata || !isQuestion) add(index, issue);
+    });
+  }
+  return groups;
+}
+
+async function repairSegments(
+  document: ExamDocument,
+  groups: Map<number, ExamIssue[]>,
+  apiKey: string,
+  options: LlmJobOptions,
+): Promise<number> {
+  const log = options.onLog ?? ((msg: string) => console.log(msg));
+  const indexes = [...groups.keys()].filter((index) => index < document.segments.length);
+  if (indexes.length === 0) return 0;
+
+  const blocks = indexes
+    .map((index) => {
+      const problems = formatExamIssues(groups.get(index) ?? [])
+        .map((line) => `- ${line}`)
+        .join("\n");
+      return `=== BLOCK ${index + 1} ===\nProblems:\n${problems}\n\n${renderSegment(document.segments[index]).trim()}`;
+    })
+    .join("\n\n");
+
+  const { blocks: repaired } = await callLlmStructured<{
+    blocks: Array<{ block: number; markdown: string }>;
+  }>(
+    [
+      { role: "system", content: REPAIR_SYSTEM_PROMPT },
+      { role: "user", content: `Repair these blocks:\n\n${blocks}` },
+    ],
+    apiKey,
+    "judge",
+    {
+      toolName: "record_repaired_blocks",
+      description: "Record the repaired exam.md blocks, each in full.",
+      schema: REPAIR_SCHEMA,
+    },
+    options,
+  );
+
+  let spliced = 0;
+  for (const { block, markdown } of repaired) {
+    const index = block - 1;
+    if (!groups.has(index) || index >= document.segments.length) {
+      log(`  ignored repair for block ${block}: it was not sent for repair`);
+      continue;
+    }
+    // A repaired block must still be exactly one JSON block with its leading markdown.
+    const replacement = parseExamMd(markdown.replace(/\s+$/, ""));
+    if (replacement.segments.length !== 1 || replacement.trailing.trim()) {
+      log(`  ignored repair for block ${block}: expected exactly one JSON block`);
+      continue;
+    }
+    // Keep the original separator and spacing so neighbouring blocks stay apart.
+    const [segment] = replacement.segments;
+    const lead = (text: string) => text.match(/^\s*(?:---\s*\n)?\s*/)?.[0] ?? "";
+    const original = document.segments[index].text;
+    segment.text = lead(original) + segment.text.slice(lead(segment.text).length);
+    document.segments[index] = segment;
+    spliced++;
+  }
+  return spliced;
+}
+
+/**
+ * Validates exam.md and, while issues remain, sends only the failing blocks and
+ * their issues back to the judge model and splices the corrected blocks in.
+ * Stops after `maxAttempts` repair passes and returns whatever is still open.
+ */
+export async function repairExamMd(
+  examMd: string,
+  apiKey: string,
+  options: RepairExamOptions,
+): Promise<RepairExamResult> {
+  const { validate, maxAttempts = getRepairMaxAttempts(), ...llm } = options;
+  const log = llm.onLog ?? ((msg: string) => console.log(msg));
+
+  let document = parseExamMd(examMd);
+  let issues = await validate(document);
+  let attempts = 0;
+
+  while (issues.length > 0 && attempts < maxAttempts) {
+    attempts++;
+    log(`  repair ${attempts}/${maxAttempts}: ${issues.length} issue(s)`);
+    formatExamIssues(issues).forEach((line) => log(`    ${line}`));
+
+    const groups = groupIssuesBySegment(document, issues);
+    const spliced = await repairSegments(document, groups, apiKey, llm);
+    log(`  ${spliced}/${groups.size} block(s) replaced`);
+
+    // Repairs can change points, so totals and tags are recomputed before re-checking.
+    examMd = normalizeExamMetadataAndTags(serializeExamMd(document));
+    document = parseExamMd(examMd);
+    issues = await validate(document);
+  }
+
+  return { examMd, document, issues, attempts };
+}
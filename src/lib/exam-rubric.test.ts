@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { parseExamMd } from "./exam-md";
+import { findRubricWarnings, validateRubricPoints } from "./exam-rubric";
+
+function examWithRubric(points: number, rubric: string): string {
+  const data = {
+    problem_id: "1",
+    points,
+    type: "Freeform",
+    tags: ["scheduling"],
+    answer: "See rubric.",
+    llm_judge_instructions: rubric,
+  };
+  return `## Question 1 [${points} points]\n\nExplain.\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\`\n`;
+}
+
+function check(points: number, rubric: string) {
+  const document = parseExamMd(examWithRubric(points, rubric));
+  return { issues: validateRubricPoints(document), warnings: findRubricWarnings(document) };
+}
+
+describe("validateRubricPoints", () => {
+  it("adds an 'up to' criterion to the other awards", () => {
+    const { issues, warnings } = check(
+      5,
+      "Award 3 points for the correct answer. Award up to 2 points for a clear explanation.",
+    );
+    expect(issues).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("ignores counts without a point unit", () => {
+    const { issues, warnings } = check(
+      4,
+      "Award 4 points if the answer states that 2 page faults occur out of 8 accesses.",
+    );
+    expect(issues).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("does not read 'a total of' without a unit as full credit", () => {
+    const { issues, warnings } = check(
+      5,
+      "Award 5 points for the correct schedule (a total of 3 context switches).",
+    );
+    expect(issues).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("rejects an award above the question's points", () => {
+    const { issues } = check(5, "Award 6 points for a correct answer.");
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain("awards 6 points");
+  });
+
+  it("only warns about a larger amount next to a fitting award", () => {
+    const { issues, warnings } = check(
+      5,
+      "Award 5 pts for explaining that the 10 points of failure share one power supply.",
+    );
+    expect(issues).toEqual([]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].message).toContain("awards 10 points");
+  });
+
+  it("rejects full credit that differs from the question's points", () => {
+    const { issues } = check(5, "Full credit (4 points) for a correct answer.");
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain("full credit as 4 points");
+  });
+
+  it("only warns when the awards never reach the points", () => {
+    const { issues, warnings } = check(
+      5,
+      "Award 3 points for the correct answer. Award up to 1 point for a clear explanation.",
+    );
+    expect(issues).toEqual([]);
+    expect(warnings).toHaveLength(1);
+  });
+});
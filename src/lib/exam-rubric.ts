@@ -0,0 +1,165 @@
+import type { ExamDocument, ExamQuestion } from "./exam-md";
+import type { ExamIssue } from "./exam-schema";
+
+export interface RubricAllocation {
+  amount: number;
+  /** full: the full-credit amount; part: credit for a labelled sub-part; award: any other amount. */
+  kind: "full" | "part" | "award";
+  /** Sub-part label for part allocations, e.g. "a" or "ii". */
+  part?: string;
+  /** Per-item ("1 point each") or deducted amounts don't add up to the total on their own. */
+  perItem: boolean;
+  deduction: boolean;
+  sentence: string;
+}
+
+// Only numbers with a point unit are allocations; "8 accesses" or "a total of 3
+// context switches" describe the answer, not the credit.
+const AMOUNT_PATTERN = /(\d+(?:\.\d+)?)\s*(?:points?|pts?|marks?)\b/gi;
+// "Up to 2 points" or "maximum 3 points" can cap one criterion as easily as the
+// whole question, so only these phrasings mark the full-credit amount.
+const FULL_CREDIT_PATTERN =
+  /\b(full (?:credit|marks|points|score)|(?:fully|completely|entirely) correct|complete and correct|correct and complete)\b/i;
+const PART_LABEL_PATTERN = /^\s*(?:part\s+)?\(?([a-h]|[ivx]{1,4})\)[:.]?\s|^\s*part\s+([a-h0-9]{1,3})\b[:.)]?/i;
+const PER_ITEM_PATTERN = /\b(each|per|for every)\b/i;
+const DEDUCTION_PATTERN = /\b(deduct(?:ed)?|subtract(?:ed)?|minus|lose|loses|penal(?:ty|ize))\b/i;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.;!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/** Pulls every point allocation with a unit out of an llm_judge_instructions rubric. */
+export function parseRubricAllocations(rubric: string): RubricAllocation[] {
+  const allocations: RubricAllocation[] = [];
+
+  for (const sentence of splitSentences(rubric)) {
+    const partMatch = sentence.match(PART_LABEL_PATTERN);
+    const part = partMatch ? (partMatch[1] ?? partMatch[2]).toLowerCase() : undefined;
+    const perItem = PER_ITEM_PATTERN.test(sentence);
+    const deduction = DEDUCTION_PATTERN.test(sentence);
+    const isFull = !part && !deduction && FULL_CREDIT_PATTERN.test(sentence);
+    const base = { perItem, deduction, sentence };
+
+    for (const match of sentence.matchAll(AMOUNT_PATTERN)) {
+      const amount = Number(match[1]);
+      if (part) {
+        allocations.push({ ...base, amount, kind: "part", part });
+      } else {
+        allocations.push({ ...base, amount, kind: isFull && !perItem ? "full" : "award" });
+      }
+    }
+  }
+
+  return allocations;
+}
+
+function formatPoints(amount: number): string {
+  return `${amount} point${amount === 1 ? "" : "s"}`;
+}
+
+function checkRubric(question: ExamQuestion, issues: ExamIssue[], warnings: ExamIssue[]): void {
+  const issue = (message: string) => issues.push({ problemId: question.problemId, message });
+  const warning = (message: string) => warnings.push({ problemId: question.problemId, message });
+  const { points, llm_judge_instructions: rubric } = question.data;
+  // Missing rubrics and invalid points are reported by the schema check.
+  if (typeof rubric !== "string" || !rubric.trim()) return;
+  if (typeof points !== "number" || !Number.isInteger(points) || points <= 0) return;
+
+  const allocations = parseRubricAllocations(rubric);
+  if (allocations.length === 0) {
+    issue("llm_judge_instructions gives no point values; state what earns full and partial credit");
+    return;
+  }
+
+  const tooHigh = allocations.filter((allocation) => allocation.amount > points);
+  for (const allocation of tooHigh) {
+    const message = `llm_judge_instructions awards ${formatPoints(allocation.amount)} but the question is worth ${formatPoints(points)}: "${allocation.sentence}"`;
+    // With a fitting award in the same sentence, the larger number may describe
+    // the answer ("the 10 points of failure") rather than the credit.
+    const hasFittingAward = allocations.some(
+      (other) => other.sentence === allocation.sentence && other.amount <= points,
+    );
+    if (hasFittingAward) {
+      warning(message);
+    } else {
+      issue(message);
+    }
+  }
+
+  const full = allocations.filter(
+    (allocation) => allocation.kind === "full" && allocation.amount <= points,
+  );
+  for (const allocation of full) {
+    if (allocation.amount !== points) {
+      issue(
+        `llm_judge_instructions gives full credit as ${formatPoints(allocation.amount)} but the question is worth ${formatPoints(points)}`,
+      );
+    }
+  }
+
+  // A multi-part breakdown is worth the best award of each part, added up.
+  const partMaxima = new Map<string, number>();
+  for (const allocation of allocations) {
+    if (allocation.kind !== "part" || allocation.deduction || allocation.perItem) continue;
+    partMaxima.set(
+      allocation.part!,
+      Math.max(partMaxima.get(allocation.part!) ?? 0, allocation.amount),
+    );
+  }
+  if (partMaxima.size >= 2) {
+    const sum = [...partMaxima.values()].reduce((total, amount) => total + amount, 0);
+    if (sum !== points) {
+      const breakdown = [...partMaxima].map(([part, amount]) => `${part}: ${amount}`).join(", ");
+      issue(
+        `llm_judge_instructions part allocations (${breakdown}) add up to ${sum}, not ${points}`,
+      );
+    }
+    return;
+  }
+
+  // Without an explicit full-credit amount or parts, either the largest award is
+  // full credit or the awards are additive criteria that should sum to the points.
+  // Free-form rubrics can mix both, so a mismatch is only a warning.
+  if (full.length > 0 || tooHigh.length > 0) return;
+  const awards = allocations.filter(
+    (allocation) => !allocation.deduction && allocation.amount > 0,
+  );
+  if (awards.length === 0 || awards.some((allocation) => allocation.perItem)) return;
+  const largest = Math.max(...awards.map((allocation) => allocation.amount));
+  const sum = awards.reduce((total, allocation) => total + allocation.amount, 0);
+  if (largest !== points && sum !== points) {
+    warning(
+      `llm_judge_instructions never awards the full ${formatPoints(points)} (largest award ${largest}, awards sum to ${sum})`,
+    );
+  }
+}
+
+function checkRubrics(document: ExamDocument): { issues: ExamIssue[]; warnings: ExamIssue[] } {
+  const issues: ExamIssue[] = [];
+  const warnings: ExamIssue[] = [];
+  for (const question of document.questions) {
+    checkRubric(question, issues, warnings);
+  }
+  return { issues, warnings };
+}
+
+/**
+ * Checks that each rubric's point allocations fit the question: explicit full
+ * credit equals `points`, no award exceeds it, sub-part allocations add up to
+ * it, and rubrics without any point values are flagged as too vague.
+ */
+export function validateRubricPoints(document: ExamDocument): ExamIssue[] {
+  return checkRubrics(document).issues;
+}
+
+/**
+ * Rubrics whose awards neither reach `points` on their own nor add up to it, and
+ * amounts over `points` in a sentence that also gives a fitting award. The
+ * allocations are read from free text, so these are reported, not enforced.
+ */
+export function findRubricWarnings(document: ExamDocument): ExamIssue[] {
+  return checkRubrics(document).warnings;
+}
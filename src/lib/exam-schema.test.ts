@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { parseExamMd } from "./exam-md";
+import { formatExamIssues, validateExamDocument } from "./exam-schema";
+
+const METADATA = {
+  exam_id: "os_final_2024",
+  test_paper_name: "Final",
+  course: "Operating Systems",
+  institution: "Example University",
+  year: 2024,
+};
+
+function block(data: unknown): string {
+  return `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+function question(heading: string, body: string, data: Record<string, unknown>): string {
+  return `---\n\n${heading}\n\n${body}\n\n${block(data)}\n\n`;
+}
+
+const freeform = (id: string, points: number, extra: Record<string, unknown> = {}) => ({
+  problem_id: id,
+  points,
+  type: "Freeform",
+  tags: ["scheduling"],
+  answer: "Round robin.",
+  llm_judge_instructions: `Award ${points} points.`,
+  ...extra,
+});
+
+function exam(questions: string[], metadata: Record<string, unknown> = {}): string {
+  return `# Final\n\n${block({ ...METADATA, ...metadata })}\n\n${questions.join("")}`;
+}
+
+function messages(markdown: string): string[] {
+  return formatExamIssues(validateExamDocument(parseExamMd(markdown)));
+}
+
+describe("validateExamDocument", () => {
+  it("accepts a valid exam", () => {
+    const markdown = exam(
+      [
+        question("## Question 1 [1 point]", "Which call creates a process?\n\nA) fork\nB) exec", {
+          problem_id: "1",
+          points: 1,
+          type: "ExactMatch",
+          tags: ["processes"],
+          choices: ["fork", "exec"],
+          answer: "A",
+        }),
+        question("## Question 2 [4 points]", "Name the scheduler.", freeform("2", 4)),
+      ],
+      { score_total: 5, num_questions: 2 },
+    );
+    expect(messages(markdown)).toEqual([]);
+  });
+
+  it("checks metadata fields and totals", () => {
+    const markdown = exam(
+      [question("## Question 1 [3 points]", "Name the scheduler.", freeform("1", 3))],
+      { exam_id: "OS Final", year: "2024", score_total: 4, num_questions: 2 },
+    );
+    expect(messages(markdown)).toEqual([
+      'exam: exam_id "OS Final" must match ^[a-z0-9_]+$',
+      'exam: year must be an integer, got "2024"',
+      "exam: num_questions is 2 but there are 1 questions",
+      "exam: score_total is 4 but question points sum to 3",
+    ]);
+  });
+
+  it("checks question fields per type", () => {
+    const markdown = exam(
+      [
+        question("## Question 1 [2 points]", "Pick one.", {
+          problem_id: "1",
+          points: 2,
+          type: "ExactMatch",
+          tags: ["Bad Tag"],
+          choices: ["only"],
+          answer: "A",
+        }),
+        question(
+          "## Question 2 [2 points]",
+          "Explain.",
+          freeform("2", 2, { choices: ["a", "b"], llm_judge_instructions: "" }),
+        ),
+        question("## Question 3 [2 points]", "Explain.", freeform("3", 2, { type: "Essay" })),
+      ],
+      { score_total: 6, num_questions: 3 },
+    );
+    expect(messages(markdown)).toEqual([
+      'Q1: tag "Bad Tag" must match ^[a-z0-9-]+$',
+      "Q1: ExactMatch needs a choices array of at least two non-empty strings",
+      "Q2: Freeform questions must not have choices",
+      "Q2: Freeform needs non-empty llm_judge_instructions",
+      'Q3: type must be one of ExactMatch, Freeform, got "Essay"',
+    ]);
+  });
+
+  it("checks headings against the JSON block", () => {
+    const markdown = exam(
+      [
+        question("## Question 1 [3 points]", "Explain.", freeform("1", 2)),
+        question("## Question 2 [1 points]", "Explain.", freeform("2", 1)),
+        question("### Question 3", "Explain.", freeform("3", 2)),
+      ],
+      { score_total: 5, num_questions: 3 },
+    );
+    expect(messages(markdown)).toEqual([
+      "Q1: heading says 3 points but the JSON block has 2",
+      'Q2: heading must say "point" for 1 point',
+      'Q3: missing "## Question N [P points]" heading',
+    ]);
+  });
+
+  it("reports broken blocks, duplicates and empty exams", () => {
+    expect(messages(exam([], { score_total: 0, num_questions: 0 }))).toEqual([
+      "exam: exam has no questions",
+    ]);
+
+    const markdown = exam(
+      [
+        question("## Question 1 [2 points]", "Explain.", freeform("1", 2)),
+        question("## Question 1 [2 points]", "Explain again.", freeform("1", 2)),
+        "```json\n{ not json\n```\n",
+      ],
+      { score_total: 4, num_questions: 2 },
+    );
+    expect(messages(markdown)).toEqual([
+      "exam: JSON block 4 is not a valid JSON object",
+      "Q1: duplicate problem_id",
+    ]);
+  });
+});
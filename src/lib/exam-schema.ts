@@ -0,0 +1,151 @@
+import { isQuestionData, type ExamDocument, type ExamQuestion } from "./exam-md";
+
+export interface ExamIssue {
+  /** Question the issue belongs to, or null for metadata and file-level issues. */
+  problemId: string | null;
+  message: string;
+}
+
+const QUESTION_TYPES = ["ExactMatch", "Freeform"];
+const TAG_PATTERN = /^[a-z0-9-]+$/;
+const EXAM_ID_PATTERN = /^[a-z0-9_]+$/;
+const POINTS_HEADING_PATTERN = /^## Question \S+ \[(\d+) (point|points|point\(s\))\]$/;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function checkMetadata(document: ExamDocument, issues: ExamIssue[]): void {
+  const issue = (message: string) => issues.push({ problemId: null, message });
+  const { metadata } = document;
+  if (!metadata) {
+    issue("first JSON block must be the exam metadata");
+    return;
+  }
+
+  for (const field of ["exam_id", "test_paper_name", "course", "institution"]) {
+    if (!isNonEmptyString(metadata[field])) {
+      issue(`${field} must be a non-empty string`);
+    }
+  }
+  if (isNonEmptyString(metadata.exam_id) && !EXAM_ID_PATTERN.test(metadata.exam_id)) {
+    issue(`exam_id "${metadata.exam_id}" must match ${EXAM_ID_PATTERN.source}`);
+  }
+  if (!isPositiveInteger(metadata.year)) {
+    issue(`year must be an integer, got ${JSON.stringify(metadata.year)}`);
+  }
+
+  const questionCount = document.questions.length;
+  if (metadata.num_questions !== questionCount) {
+    issue(`num_questions is ${JSON.stringify(metadata.num_questions)} but there are ${questionCount} questions`);
+  }
+  const pointsSum = document.questions.reduce(
+    (sum, { data }) => sum + (typeof data.points === "number" ? data.points : 0),
+    0,
+  );
+  if (metadata.score_total !== pointsSum) {
+    issue(`score_total is ${JSON.stringify(metadata.score_total)} but question points sum to ${pointsSum}`);
+  }
+}
+
+function checkQuestion(question: ExamQuestion, issues: ExamIssue[]): void {
+  const issue = (message: string) => issues.push({ problemId: question.problemId, message });
+  const { data } = question;
+
+  if (!isNonEmptyString(data.problem_id)) {
+    issue("problem_id must be a non-empty string");
+  }
+  if (!isPositiveInteger(data.points)) {
+    issue(`points must be a positive integer, got ${JSON.stringify(data.points)}`);
+  }
+  if (!isNonEmptyString(data.answer)) {
+    issue("answer must be a non-empty string");
+  }
+  if (!question.body) {
+    issue("question text is empty");
+  }
+
+  if (!Array.isArray(data.tags) || data.tags.length === 0) {
+    issue("tags must be a non-empty array");
+  } else {
+    for (const tag of data.tags) {
+      if (typeof tag !== "string" || !TAG_PATTERN.test(tag)) {
+        issue(`tag ${JSON.stringify(tag)} must match ${TAG_PATTERN.source}`);
+      }
+    }
+  }
+
+  if (data.type === "ExactMatch") {
+    const choices = data.choices;
+    if (!Array.isArray(choices) || choices.length < 2 || !choices.every(isNonEmptyString)) {
+      issue("ExactMatch needs a choices array of at least two non-empty strings");
+    }
+  } else if (data.type === "Freeform") {
+    if (data.choices !== undefined) {
+      issue("Freeform questions must not have choices");
+    }
+    if (!isNonEmptyString(data.llm_judge_instructions)) {
+      issue("Freeform needs non-empty llm_judge_instructions");
+    }
+  } else {
+    issue(`type must be one of ${QUESTION_TYPES.join(", ")}, got ${JSON.stringify(data.type)}`);
+  }
+
+  if (!question.heading) {
+    issue('missing "## Question N [P points]" heading');
+  } else {
+    const match = question.heading.line.trim().match(POINTS_HEADING_PATTERN);
+    if (!match) {
+      issue(`heading "${question.heading.line.trim()}" must look like "## Question N [P points]"`);
+    } else if (Number(match[1]) !== data.points) {
+      issue(`heading says ${match[1]} points but the JSON block has ${JSON.stringify(data.points)}`);
+    } else if (match[2] === "point" && data.points !== 1) {
+      issue(`heading must say "points" for ${data.points} points`);
+    } else if (match[2] === "points" && data.points === 1) {
+      issue('heading must say "point" for 1 point');
+    }
+  }
+}
+
+/**
+ * Checks exam.md against the same rules as the benchmark's schema tests so
+ * problems surface before a Docker run. Returns every issue found.
+ */
+export function validateExamDocument(document: ExamDocument): ExamIssue[] {
+  const issues: ExamIssue[] = [];
+
+  document.segments.forEach((segment, index) => {
+    if (segment.block.data === null) {
+      issues.push({ problemId: null, message: `JSON block ${index + 1} is not a valid JSON object` });
+    } else if (index > 0 && !isQuestionData(segment.block.data)) {
+      issues.push({ problemId: null, message: `JSON block ${index + 1} has no problem_id` });
+    }
+  });
+
+  checkMetadata(document, issues);
+  if (document.questions.length === 0) {
+    issues.push({ problemId: null, message: "exam has no questions" });
+  }
+
+  const seen = new Set<string>();
+  for (const question of document.questions) {
+    if (seen.has(question.problemId)) {
+      issues.push({ problemId: question.problemId, message: "duplicate problem_id" });
+    }
+    seen.add(question.problemId);
+    checkQuestion(question, issues);
+  }
+
+  return issues;
+}
+
+/** One log line per issue, prefixed with the question it belongs to. */
+export function formatExamIssues(issues: ExamIssue[]): string[] {
+  return issues.map(
+    (issue) => `${issue.problemId === null ? "exam" : `Q${issue.problemId}`}: ${issue.message}`,
+  );
+}
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { parseExamMd } from "./exam-md";
+import { formatExamIssues } from "./exam-schema";
+import { findDanglingReferences, fixDanglingReferences } from "./exam-self-containment";
+import { callLlmStructured } from "./structured-output";
+
+vi.mock("./structured-output", () => ({ callLlmStructured: vi.fn() }));
+
+const mockedCall = vi.mocked(callLlmStructured);
+
+function question(id: string, body: string): string {
+  const data = {
+    problem_id: id,
+    points: 2,
+    type: "Freeform",
+    tags: ["memory"],
+    answer: "See solutions.",
+    llm_judge_instructions: "Award 2 points.",
+  };
+  return `## Question ${id} [2 points]\n\n${body}\n\n\`\`\`json\n${JSON.stringify(data)}\n\`\`\`\n\n`;
+}
+
+function dangling(body: string): string[] {
+  return formatExamIssues(findDanglingReferences(parseExamMd(question("4b", body))));
+}
+
+describe("findDanglingReferences", () => {
+  it("flags code, figures and tables the question does not include", () => {
+    expect(dangling("What does the code above print?")).toEqual([
+      'Q4b: question text refers to "the code above" but does not include the code',
+    ]);
+    expect(dangling("Using Figure 2, find the page size.")).toEqual([
+      'Q4b: question text refers to "Figure 2" but does not include the figure',
+    ]);
+    expect(dangling("Fill in the table below.")).toEqual([
+      'Q4b: question text refers to "the table below" but does not include the table',
+    ]);
+  });
+
+  it("accepts references whose target is included", () => {
+    expect(dangling("What does the code below print?\n\n```c\nprintf(\"hi\");\n```")).toEqual([]);
+    expect(dangling("Using Figure 2, find the page size.\n\n![Figure 2](figure.png)")).toEqual([]);
+    expect(dangling("Fill in the table below.\n\n| page | frame |\n|---|---|")).toEqual([]);
+  });
+
+  it("flags references to other parts", () => {
+    expect(dangling("Using your result from (a), compute the hit rate.")).toEqual([
+      'Q4b: question text refers to another part: "from (a)"',
+    ]);
+    expect(dangling("Repeat the previous part for LRU.")).toEqual([
+      'Q4b: question text refers to another part: "previous part"',
+    ]);
+    expect(dangling("Using the result in part a, compute the hit rate.")).toEqual([
+      'Q4b: question text refers to another part: "in part a"',
+    ]);
+  });
+
+  it("does not flag part labels in ordinary prose", () => {
+    expect(dangling("Part a, b and c are independent. Compute the hit rate.")).toEqual([]);
+    expect(dangling("Part (b) asks for the hit rate.")).toEqual([]);
+    expect(dangling("This is the next part of the exam.")).toEqual([]);
+  });
+
+  it("lets unsplit questions refer between their own parts", () => {
+    const body = "(a) Compute the hit rate.\n\n(b) Using your result from (a), compute the AMAT.";
+    expect(dangling(body)).toEqual([]);
+  });
+});
+
+describe("fixDanglingReferences", () => {
+  beforeEach(() => {
+    mockedCall.mockReset();
+  });
+
+  it("copies the returned stem in before the question text", async () => {
+    const examMd = question("4b", "What does the code above print?");
+    mockedCall.mockResolvedValue({
+      questions: [{ problem_id: "4b", stem: "Consider:\n\n```c\nprintf(\"hi\");\n```" }],
+    });
+
+    const result = await fixDanglingReferences(examMd, "", "key");
+    expect(result.fixed).toEqual(["4b"]);
+    expect(result.issues).toEqual([]);
+    expect(result.examMd).toContain(
+      "## Question 4b [2 points]\n\nConsider:\n\n```c\nprintf(\"hi\");\n```\n\nWhat does the code above print?",
+    );
+  });
+
+  it("does not claim questions fixed without a stem", async () => {
+    const examMd = question("4b", "What does the code above print?");
+    mockedCall.mockResolvedValue({ questions: [{ problem_id: "4b", stem: "" }] });
+
+    const result = await fixDanglingReferences(examMd, "", "key");
+    expect(result.fixed).toEqual([]);
+    expect(result.examMd).toBe(examMd);
+    expect(formatExamIssues(result.issues)).toEqual([
+      'Q4b: question text refers to "the code above" but does not include the code',
+    ]);
+  });
+
+  it("sends exam text ending at the question when the source has no pages", async () => {
+    const examMd = question("4b", "What does the code above print when run twice?");
+    const examText = [
+      "Question 4. Consider the following program.",
+      "int main() { printf(\"hi\"); }",
+      "b) What does the code above print when run twice?",
+      "Question 5. Unrelated scheduling question.",
+    ].join("\n\n");
+    mockedCall.mockResolvedValue({ questions: [] });
+
+    await fixDanglingReferences(examMd, examText, "key");
+    const request = mockedCall.mock.calls[0][0][1].content as string;
+    expect(request).toContain(
+      "--- Exam text ---\nQuestion 4. Consider the following program.\n\nint main()",
+    );
+    expect(request).not.toContain("Question 5");
+  });
+});
@@ -0,0 +1,282 @@
+import { parseExamMd, serializeExamMd, type ExamDocument, type ExamQuestion } from "./exam-md";
+import { formatExamIssues, type ExamIssue } from "./exam-schema";
+import type { JsonSchema } from "./json-schema";
+import type { LlmJobOptions } from "./llm-client";
+import { locateQuestionSources, splitPages, trigrams } from "./provenance";
+import { callLlmStructured } from "./structured-output";
+
+export interface FixDanglingReferencesResult {
+  examMd: string;
+  /** Questions a shared stem was copied into. */
+  fixed: string[];
+  /** Dangling references still found after the fix, including any whose stem could not be inserted. */
+  issues: ExamIssue[];
+}
+
+type ReferenceTarget = "code" | "figure" | "table" | "part";
+
+interface ReferencePattern {
+  pattern: RegExp;
+  /** What the question text must contain for the reference to resolve. */
+  target: ReferenceTarget;
+}
+
+const REFERENCE_PATTERNS: ReferencePattern[] = [
+  {
+    pattern:
+      /\b(?:(?:the|this|that)\s+(?:code|program|listing|snippet|function|pseudocode)\s+(?:above|below|shown|given)|(?:the\s+)?above\s+(?:code|program|listing|snippet|function|pseudocode))\b/gi,
+    target: "code",
+  },
+  {
+    pattern:
+      /\b(?:(?:the|this|that)\s+(?:figure|diagram|graph|picture|image)\s+(?:above|below|shown)|(?:the\s+)?above\s+(?:figure|diagram|graph|picture|image)|fig(?:ure|\.)\s*\d+)\b/gi,
+    target: "figure",
+  },
+  {
+    pattern: /\b(?:(?:the|this|that)\s+table\s+(?:above|below|shown)|(?:the\s+)?above\s+table)\b/gi,
+    target: "table",
+  },
+  {
+    pattern:
+      /\b(?:(?:previous|prior|preceding|earlier|next)\s+(?:part|question|sub-?question|problem)\b(?!\s+of\b)|(?:as\s+in|from|in|see|using|of)\s+(?:part\s+)?\((?:[a-h]|[ivx]{1,4})\)|(?:as\s+in|from|in|see|using|of)\s+part\s+[a-h](?=[.;:?)]|,(?!\s*[a-h]\b)|$))/gi,
+    target: "part",
+  },
+];
+
+// Exam text sent for sources without page markers, ending at the question.
+const MAX_UNPAGED_EXAM_CHARS = 8000;
+
+const PART_LABEL_LINE_PATTERN = /^\s*(?:\*\*)?\(?(?:[a-h]|[ivx]{1,4})\)/im;
+
+const STEM_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["questions"],
+  additionalProperties: false,
+  properties: {
+    questions: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["problem_id", "stem"],
+        additionalProperties: false,
+        properties: {
+          problem_id: { type: "string", minLength: 1 },
+          stem: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const STEM_SYSTEM_PROMPT = `You make split exam sub-questions self-contained.
+
+Each listed question refers to context it does not include, such as "the code above", "Figure 2" or "as in part (a)". You are given the question, its sibling sub-questions, and the exam text it came from.
+
+For each question, return the shared stem it is missing: the setup text, code, tables or figure references from the original question or its siblings that the reference points to. Copy it verbatim, keeping markdown code fences and image references such as ![Figure 1: ...](figure_p3_1.png) exactly as written. Do not include answers, solutions or the text of other sub-parts' questions. Do not repeat text the question already contains. Return "" if the context cannot be found.
+
+Return the result by calling the record_question_stems tool.`;
+
+function hasTarget(body: string, target: ReferenceTarget): boolean {
+  switch (target) {
+    case "code":
+      return /```|^(?: {4}|\t)\S/m.test(body);
+    case "figure":
+      return /!\[[^\]]*\]\([^)]+\)/.test(body);
+    case "table":
+      return /^\s*\|.*\|\s*$/m.test(body);
+    case "part":
+      // Unsplit questions may refer between their own parts.
+      return PART_LABEL_LINE_PATTERN.test(body);
+  }
+}
+
+function checkQuestion(question: ExamQuestion, issues: ExamIssue[]): void {
+  const seen = new Set<string>();
+  for (const { pattern, target } of REFERENCE_PATTERNS) {
+    if (hasTarget(question.body, target)) continue;
+    for (const match of question.body.matchAll(pattern)) {
+      const phrase = match[0].replace(/\s+/g, " ");
+      if (seen.has(phrase.toLowerCase())) continue;
+      seen.add(phrase.toLowerCase());
+      issues.push({
+        problemId: question.problemId,
+        message:
+          target === "part"
+            ? `question text refers to another part: "${phrase}"`
+            : `question text refers to "${phrase}" but does not include the ${target}`,
+      });
+    }
+  }
+}
+
+/**
+ * Flags references that only make sense next to the rest of the original
+ * question: "the code above" without code, "Figure 2" without an image,
+ * "as in (a)" or "the previous part" once a sub-question stands alone.
+ */
+export function findDanglingReferences(document: ExamDocument): ExamIssue[] {
+  const issues: ExamIssue[] = [];
+  for (const question of document.questions) {
+    checkQuestion(question, issues);
+  }
+  return issues;
+}
+
+function baseLabel(problemId: string): string {
+  return problemId.match(/^\d+/)?.[0] ?? problemId;
+}
+
+function buildStemRequest(
+  document: ExamDocument,
+  question: ExamQuestion,
+  issues: ExamIssue[],
+  examPages: string,
+): string {
+  const siblings = document.questions.filter(
+    (other) => other !== question && baseLabel(other.problemId) === baseLabel(question.problemId),
+  );
+  const references = formatExamIssues(issues)
+    .map((line) => `- ${line}`)
+    .join("\n");
+  return [
+    `=== QUESTION ${question.problemId} ===`,
+    `Dangling references:\n${references}`,
+    question.body.trim(),
+    ...siblings.map((sibling) => `--- Sibling ${sibling.problemId} ---\n${sibling.body.trim()}`),
+    examPages ? `--- Exam text ---\n${examPages}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Exam text leading up to the paragraph that best matches the question, for
+ * sources without page markers (txt, docx, LaTeX, HTML). Falls back to the
+ * start of the exam when no paragraph shares a trigram with the question.
+ */
+function findUnpagedExamText(
+  paragraphs: Array<{ text: string; grams: Set<string> }>,
+  question: ExamQuestion,
+): string {
+  const questionGrams = trigrams(question.body);
+  let best = -1;
+  let bestShared = 0;
+  paragraphs.forEach(({ grams }, index) => {
+    const shared = [...grams].filter((gram) => questionGrams.has(gram)).length;
+    if (shared > bestShared) {
+      best = index;
+      bestShared = shared;
+    }
+  });
+
+  if (best < 0) {
+    return paragraphs
+      .map(({ text }) => text)
+      .join("\n\n")
+      .slice(0, MAX_UNPAGED_EXAM_CHARS)
+      .trim();
+  }
+  return paragraphs
+    .slice(0, best + 1)
+    .map(({ text }) => text)
+    .join("\n\n")
+    .slice(-MAX_UNPAGED_EXAM_CHARS)
+    .trim();
+}
+
+// Inserts the stem between the question heading and its text. Returns false if
+// the text could not be located in its segment, leaving the segment unchanged.
+function insertStem(question: ExamQuestion, stem: string): boolean {
+  const { segment, heading, body } = question;
+  const anchor = heading ? segment.text.indexOf(heading.line) : -1;
+  const at =
+    anchor >= 0
+      ? segment.text.indexOf(body, anchor + heading!.line.length)
+      : segment.text.indexOf(body);
+  if (at < 0) return false;
+  segment.text = `${segment.text.slice(0, at)}${stem.trim()}\n\n${segment.text.slice(at)}`;
+  return true;
+}
+
+/**
+ * Finds dangling references and asks the judge model for the shared stem each
+ * affected question is missing, taken from its sibling sub-questions and the
+ * exam pages it came from. Stems are spliced in before the question text;
+ * nothing else in exam.md is rewritten.
+ */
+export async function fixDanglingReferences(
+  examMd: string,
+  examText: string,
+  apiKey: string,
+  options: LlmJobOptions = {},
+): Promise<FixDanglingReferencesResult> {
+  const document = parseExamMd(examMd);
+  const issues = findDanglingReferences(document);
+  if (issues.length === 0) return { examMd, fixed: [], issues };
+
+  const flagged = document.questions.filter((question) =>
+    issues.some((issue) => issue.problemId === question.problemId),
+  );
+  const pages = new Map(splitPages(examText).map(({ page, text }) => [page, text]));
+  const sources = locateQuestionSources(document, examText, "");
+  const paragraphs =
+    pages.size === 0
+      ? examText
+          .split(/\n\s*\n/)
+          .filter((text) => text.trim())
+          .map((text) => ({ text, grams: trigrams(text) }))
+      : [];
+
+  const requests = flagged.map((question) => {
+    const source = sources.find((entry) => entry.problemId === question.problemId);
+    // The shared stem usually starts on the page before the sub-question.
+    const pageNumbers = new Set(
+      (source?.examPages ?? []).flatMap((page) => [page - 1, page]),
+    );
+    const examPages =
+      pages.size === 0
+        ? findUnpagedExamText(paragraphs, question)
+        : [...pageNumbers]
+            .sort((a, b) => a - b)
+            .map((page) => pages.get(page)?.trim())
+            .filter(Boolean)
+            .join("\n\n");
+    return buildStemRequest(
+      document,
+      question,
+      issues.filter((issue) => issue.problemId === question.problemId),
+      examPages,
+    );
+  });
+
+  const { questions: stems } = await callLlmStructured<{
+    questions: Array<{ problem_id: string; stem: string }>;
+  }>(
+    [
+      { role: "system", content: STEM_SYSTEM_PROMPT },
+      { role: "user", content: requests.join("\n\n") },
+    ],
+    apiKey,
+    "judge",
+    {
+      toolName: "record_question_stems",
+      description: "Record the shared stem each question is missing.",
+      schema: STEM_SCHEMA,
+    },
+    options,
+  );
+
+  const fixed: string[] = [];
+  for (const question of flagged) {
+    const stem = stems.find((entry) => entry.problem_id === question.problemId)?.stem.trim();
+    if (!stem || !insertStem(question, stem)) continue;
+    fixed.push(question.problemId);
+  }
+
+  const fixedMd = fixed.length > 0 ? serializeExamMd(document) : examMd;
+  return {
+    examMd: fixedMd,
+    fixed,
+    issues: findDanglingReferences(parseExamMd(fixedMd)),
+  };
+}
@@ -0,0 +1,111 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export type HttpFixtureMode = "record" | "replay";
+
+interface HttpFixture {
+  request: { method: string; url: string; body: unknown };
+  response: { status: number; headers: Record<string, string>; body: string };
+}
+
+const DEFAULT_FIXTURES_DIR = "fixtures/http";
+
+// Only these response headers are kept; request headers (API keys, tokens) are never written.
+const RECORDED_RESPONSE_HEADERS = ["content-type", "retry-after"];
+
+export function getHttpFixtureMode(): HttpFixtureMode | null {
+  const mode = process.env.SIB_HTTP_MODE?.toLowerCase();
+  if (!mode || mode === "off") return null;
+  if (mode === "record" || mode === "replay") return mode;
+  throw new Error(
+    `Unsupported SIB_HTTP_MODE "${process.env.SIB_HTTP_MODE}" (expected record or replay)`,
+  );
+}
+
+export function isHttpReplay(): boolean {
+  return getHttpFixtureMode() === "replay";
+}
+
+function getFixturesDir(): string {
+  return path.resolve(process.env.SIB_HTTP_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+}
+
+function parseBody(body: string | undefined): unknown {
+  if (body === undefined) return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function computeFixtureKey(method: string, url: string, body: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify([method, url, body]))
+    .digest("hex");
+}
+
+/**
+ * Drop-in for fetch() on the LLM and GitHub calls. With SIB_HTTP_MODE unset it
+ * is plain fetch; "record" saves every exchange under SIB_HTTP_FIXTURES_DIR and
+ * "replay" serves them back without touching the network.
+ */
+export async function fixtureFetch(
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const mode = getHttpFixtureMode();
+  if (!mode) return fetch(url, init);
+
+  if (init.body !== undefined && init.body !== null && typeof init.body !== "string") {
+    throw new Error("fixtureFetch only supports string request bodies");
+  }
+
+  const method = (init.method || "GET").toUpperCase();
+  const body = parseBody(init.body ?? undefined);
+  const key = computeFixtureKey(method, url, body);
+  const filePath = path.join(getFixturesDir(), `${key}.json`);
+
+  if (mode === "replay") {
+    init.signal?.throwIfAborted();
+    let fixture: HttpFixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(filePath, "utf-8")) as HttpFixture;
+    } catch {
+      throw new Error(
+        `No recorded HTTP fixture for ${method} ${url} (${key.slice(0, 12)}) in ${getFixturesDir()}. Re-run with SIB_HTTP_MODE=record to capture it.`,
+      );
+    }
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      headers: fixture.response.headers,
+    });
+  }
+
+  const response = await fetch(url, init);
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_RESPONSE_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+
+  // Read a clone so streamed responses still reach the caller as they arrive.
+  const recorded = response
+    .clone()
+    .text()
+    .then(async (text) => {
+      const fixture: HttpFixture = {
+        request: { method, url, body },
+        response: { status: response.status, headers, body: text },
+      };
+      await fs.mkdir(getFixturesDir(), { recursive: true });
+      // A retried request has the same key, so the final attempt's response wins.
+      await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), "utf-8");
+    });
+  recorded.catch((error) => {
+    console.error(`Failed to record HTTP fixture ${key.slice(0, 12)}: ${error}`);
+  });
+
+  return response;
+}
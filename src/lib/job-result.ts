@@ -0,0 +1,7 @@
+// Streamed job logs end with one machine-readable line so callers can pick up
+// structured results (usage, URLs) without parsing the human-readable log.
+export const JOB_RESULT_PREFIX = "RESULT ";
+
+export function formatJobResult(result: Record<string, unknown>): string {
+  return `${JOB_RESULT_PREFIX}${JSON.stringify(result)}`;
+}
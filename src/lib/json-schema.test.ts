@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { validateJsonSchema, type JsonSchema } from "./json-schema";
+
+const schema: JsonSchema = {
+  type: "object",
+  required: ["label", "score", "tags"],
+  additionalProperties: false,
+  properties: {
+    label: { type: "string", minLength: 1, pattern: "^[0-9]+[a-z]?$" },
+    score: { type: "number", minimum: 0, maximum: 1 },
+    count: { type: "integer" },
+    kind: { enum: ["found", "inferred"] },
+    tags: { type: "array", minItems: 1, items: { type: "string" } },
+    note: { type: ["string", "null"] },
+  },
+};
+
+describe("validateJsonSchema", () => {
+  it("accepts a value that matches", () => {
+    expect(
+      validateJsonSchema(schema, {
+        label: "3b",
+        score: 0.5,
+        count: 2,
+        kind: "found",
+        tags: ["paging"],
+        note: null,
+      }),
+    ).toEqual([]);
+  });
+
+  it("accepts integers where a number is expected", () => {
+    expect(validateJsonSchema({ type: "number" }, 3)).toEqual([]);
+  });
+
+  it("reports a type mismatch without checking further", () => {
+    expect(validateJsonSchema(schema, [])).toEqual(["$: expected object, got array"]);
+    expect(validateJsonSchema({ type: "integer" }, 1.5)).toEqual([
+      "$: expected integer, got number",
+    ]);
+  });
+
+  it("reports missing required and unknown properties", () => {
+    expect(validateJsonSchema(schema, { label: "1", score: 0, extra: true })).toEqual([
+      "$.tags: is required",
+      "$.extra: is not allowed",
+    ]);
+  });
+
+  it("checks string, number, enum and array constraints with their paths", () => {
+    expect(
+      validateJsonSchema(schema, {
+        label: "",
+        score: 2,
+        kind: "guessed",
+        tags: [],
+      }),
+    ).toEqual([
+      "$.label: must be at least 1 character(s)",
+      "$.label: must match ^[0-9]+[a-z]?$",
+      "$.score: must be <= 1",
+      '$.kind: must be one of "found", "inferred"',
+      "$.tags: must have at least 1 item(s)",
+    ]);
+  });
+
+  it("validates array items and schema-valued additionalProperties", () => {
+    expect(validateJsonSchema(schema, { label: "1", score: 0, tags: ["a", 2] })).toEqual([
+      "$.tags[1]: expected string, got integer",
+    ]);
+    expect(
+      validateJsonSchema({ type: "object", additionalProperties: { type: "number" } }, { a: 1, b: "x" }),
+    ).toEqual(["$.b: expected number, got string"]);
+  });
+});
@@ -0,0 +1,118 @@
+// The subset of JSON Schema the pipelines use for structured LLM output.
+// Kept small on purpose: it is both sent to the model as a tool input schema
+// and checked locally by validateJsonSchema.
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  minItems?: number;
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+function typeOf(value: unknown): JsonSchemaType | "undefined" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  if (typeof value === "string") return "string";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "object") return "object";
+  return "undefined";
+}
+
+function matchesType(value: unknown, expected: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === expected || (expected === "number" && actual === "integer");
+}
+
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = "$",
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!expected.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${expected.join(" | ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    );
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} character(s)`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(
+          ...validateJsonSchema(schema.items as JsonSchema, item, `${path}[${index}]`),
+        );
+      });
+    }
+  } else if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (!Object.prototype.hasOwnProperty.call(record, key)) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertySchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(schema.additionalProperties, child, `${path}.${key}`),
+        );
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { LlmCompletion } from "./llm-provider";
+
+interface LlmCacheEntry {
+  createdAt: number;
+  model: string;
+  completion: LlmCompletion;
+}
+
+interface LlmCacheConfig {
+  dir: string;
+  ttlMs: number;
+  maxBytes: number;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_MAX_MB = 500;
+
+// The cache is off unless SIB_LLM_CACHE_DIR is set.
+function getCacheConfig(): LlmCacheConfig | null {
+  const dir = process.env.SIB_LLM_CACHE_DIR;
+  if (!dir) return null;
+
+  const ttlSeconds = Number(
+    process.env.SIB_LLM_CACHE_TTL_SECONDS || DEFAULT_TTL_SECONDS,
+  );
+  const maxMb = Number(process.env.SIB_LLM_CACHE_MAX_MB || DEFAULT_MAX_MB);
+
+  return {
+    dir,
+    ttlMs: (Number.isFinite(ttlSeconds) ? ttlSeconds : DEFAULT_TTL_SECONDS) * 1000,
+    maxBytes: (Number.isFinite(maxMb) ? maxMb : DEFAULT_MAX_MB) * 1024 * 1024,
+  };
+}
+
+export function isLlmCacheEnabled(): boolean {
+  return getCacheConfig() !== null;
+}
+
+export function computeLlmCacheKey(params: {
+  provider: string;
+  /** Endpoint override; different OpenAI-compatible servers may reuse a model name. */
+  baseUrl?: string;
+  model: string;
+  system?: string;
+  messages: unknown;
+  maxTokens?: number;
+  tool?: unknown;
+}): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        params.provider,
+        params.baseUrl ?? null,
+        params.model,
+        params.system ?? null,
+        params.messages,
+        params.maxTokens ?? null,
+        params.tool ?? null,
+      ]),
+    )
+    .digest("hex");
+}
+
+export async function readLlmCache(key: string): Promise<LlmCompletion | null> {
+  const config = getCacheConfig();
+  if (!config) return null;
+
+  const filePath = path.join(config.dir, `${key}.json`);
+  try {
+    const entry = JSON.parse(
+      await fs.readFile(filePath, "utf-8"),
+    ) as LlmCacheEntry;
+
+    if (Date.now() - entry.createdAt > config.ttlMs) {
+      await fs.rm(filePath, { force: true });
+      return null;
+    }
+
+    // Touch the file so size-based eviction drops the least recently used entries first.
+    const now = new Date();
+    await fs.utimes(filePath, now, now);
+    return entry.completion;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeLlmCache(
+  key: string,
+  model: string,
+  completion: LlmCompletion,
+): Promise<void> {
+  const config = getCacheConfig();
+  if (!config) return;
+
+  const entry: LlmCacheEntry = { createdAt: Date.now(), model, completion };
+  const filePath = path.join(config.dir, `${key}.json`);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  try {
+    await fs.mkdir(config.dir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry), "utf-8");
+    await fs.rename(tempPath, filePath);
+    await evictLlmCache(config);
+  } catch {
+    // A cache write failure should never fail the LLM call itself.
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+  }
+}
+
+export async function deleteLlmCache(key: string): Promise<void> {
+  const config = getCacheConfig();
+  if (!config) return;
+  await fs.rm(path.join(config.dir, `${key}.json`), { force: true }).catch(() => {});
+}
+
+async function evictLlmCache(config: LlmCacheConfig): Promise<void> {
+  const names = (await fs.readdir(config.dir)).filter((name) =>
+    name.endsWith(".json"),
+  );
+
+  const entries: Array<{ filePath: string; size: number; mtimeMs: number }> = [];
+  for (const name of names) {
+    const filePath = path.join(config.dir, name);
+    try {
+      const stat = await fs.stat(filePath);
+      entries.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+    } catch {
+      // Removed concurrently by another job.
+    }
+  }
+
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+  for (const entry of entries) {
+    if (totalBytes <= config.maxBytes) break;
+    await fs.rm(entry.filePath, { force: true });
+    totalBytes -= entry.size;
+  }
+}
@@ -0,0 +1,228 @@
+import { createAnthropicProvider } from "./anthropic-client";
+import { createOpenAiProvider } from "./openai-client";
+import {
+  isRetryableLlmError,
+  LlmApiError,
+  type LlmChatMessage,
+  type LlmCompletion,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmToolSpec,
+} from "./llm-provider";
+import { getHttpFixtureMode, isHttpReplay } from "./http-fixtures";
+import {
+  computeLlmCacheKey,
+  deleteLlmCache,
+  readLlmCache,
+  writeLlmCache,
+} from "./llm-cache";
+import { resolveRetryPolicy, withRetry, type RetryPolicy } from "./retry";
+import type { UsageTracker } from "./usage-tracker";
+
+export type { LlmContentBlock, LlmMessage } from "./llm-provider";
+
+export interface CallLlmOptions {
+  maxTokens?: number;
+  stream?: boolean;
+  onLog?: (msg: string) => void;
+  retry?: Partial<RetryPolicy> | false;
+  usage?: UsageTracker;
+  /** Set to false to skip the on-disk response cache for this request. */
+  cache?: boolean;
+  /** Completions this rejects are neither written to nor served from the cache. */
+  isCacheable?: (completion: LlmCompletion) => boolean;
+  tool?: LlmToolSpec;
+  /** Aborts the request, including any pending retry, when the job is cancelled. */
+  signal?: AbortSignal;
+}
+
+/** Per-job settings shared by every LLM call a pipeline makes. */
+export type LlmJobOptions = Pick<
+  CallLlmOptions,
+  "onLog" | "usage" | "cache" | "signal"
+>;
+
+export type ModelStage =
+  | "generator"
+  | "judge"
+  | "format"
+  | "ocr"
+  | "figures"
+  | "segment"
+  | "grounding"
+  | "prTitle"
+  | "prBody"
+  | "sortFiles"
+  | "labAnalysis";
+
+const MODEL_STAGE_ENV: Record<ModelStage, string> = {
+  generator: "SIB_MODEL_GENERATOR",
+  judge: "SIB_MODEL_JUDGE",
+  format: "SIB_MODEL_FORMAT",
+  ocr: "SIB_MODEL_OCR",
+  figures: "SIB_MODEL_FIGURES",
+  segment: "SIB_MODEL_SEGMENT",
+  grounding: "SIB_MODEL_GROUNDING",
+  prTitle: "SIB_MODEL_PR_TITLE",
+  prBody: "SIB_MODEL_PR_BODY",
+  sortFiles: "SIB_MODEL_SORT_FILES",
+  labAnalysis: "SIB_MODEL_LAB_ANALYSIS",
+};
+
+// Each stage falls back to SIB_LLM_MODEL, then to the provider's default model.
+export function getModel(stage: ModelStage): string {
+  return (
+    process.env[MODEL_STAGE_ENV[stage]] ||
+    process.env.SIB_LLM_MODEL ||
+    getLlmProvider().defaultModel
+  );
+}
+
+const PROVIDERS: Record<string, (baseUrl?: string) => LlmProvider> = {
+  anthropic: createAnthropicProvider,
+  openai: createOpenAiProvider,
+};
+
+let cachedProvider: { key: string; provider: LlmProvider } | null = null;
+
+function getLlmBaseUrl(): string | undefined {
+  return process.env.SIB_LLM_BASE_URL?.replace(/\/+$/, "") || undefined;
+}
+
+export function getLlmProvider(): LlmProvider {
+  const name = (process.env.SIB_LLM_PROVIDER || "anthropic").toLowerCase();
+  const baseUrl = getLlmBaseUrl();
+  const key = `${name}|${baseUrl ?? ""}`;
+
+  if (cachedProvider?.key === key) {
+    return cachedProvider.provider;
+  }
+
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown SIB_LLM_PROVIDER "${name}" (expected one of: ${Object.keys(PROVIDERS).join(", ")})`,
+    );
+  }
+
+  const provider = factory(baseUrl);
+  cachedProvider = { key, provider };
+  return provider;
+}
+
+export function getLlmApiKeyEnv(): string {
+  return getLlmProvider().apiKeyEnv;
+}
+
+export function getLlmApiKey(): string | undefined {
+  const apiKey = process.env.SIB_LLM_API_KEY || process.env[getLlmApiKeyEnv()];
+  // Replayed requests never reach the provider, so no real key is needed.
+  return apiKey || (isHttpReplay() ? "replay" : undefined);
+}
+
+export async function callLlm(
+  messages: LlmMessage[],
+  apiKey: string,
+  stage: ModelStage,
+  options?: CallLlmOptions,
+): Promise<string> {
+  const completion = await requestLlmCompletion(
+    messages,
+    apiKey,
+    stage,
+    options,
+  );
+  return completion.text;
+}
+
+export async function requestLlmCompletion(
+  messages: LlmMessage[],
+  apiKey: string,
+  stage: ModelStage,
+  options?: CallLlmOptions,
+): Promise<LlmCompletion> {
+  const provider = getLlmProvider();
+  const systemParts: string[] = [];
+  const chatMessages: LlmChatMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      if (typeof message.content === "string") {
+        systemParts.push(message.content);
+      } else {
+        const text = message.content
+          .filter((part) => part.type === "text")
+          .map((part) => (part.type === "text" ? part.text : ""))
+          .join("\n");
+        if (text.trim().length > 0) {
+          systemParts.push(text);
+        }
+      }
+    } else {
+      chatMessages.push({
+        role: message.role,
+        content: message.content,
+      });
+    }
+  }
+
+  const log = options?.onLog ?? ((msg: string) => console.log(msg));
+  const model = getModel(stage);
+  // Logged here rather than at each call site so no step can leave it out.
+  log(`  model: ${model}`);
+  const request = {
+    model,
+    system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+    messages: chatMessages,
+    maxTokens: options?.maxTokens,
+    apiKey,
+    stream: options?.stream,
+    onLog: options?.onLog,
+    tool: options?.tool,
+    signal: options?.signal,
+  };
+
+  // Record/replay runs bypass the response cache so every call goes through the fixtures.
+  const useCache = options?.cache !== false && !getHttpFixtureMode();
+  const cacheKey = computeLlmCacheKey({
+    provider: provider.name,
+    baseUrl: getLlmBaseUrl(),
+    model,
+    system: request.system,
+    messages: request.messages,
+    maxTokens: request.maxTokens,
+    tool: request.tool,
+  });
+
+  if (useCache) {
+    const cached = await readLlmCache(cacheKey);
+    if (cached && options?.isCacheable && !options.isCacheable(cached)) {
+      // Written before the caller could reject it; evict so a re-run asks again.
+      await deleteLlmCache(cacheKey);
+    } else if (cached) {
+      log(`  cache hit (${cacheKey.slice(0, 12)})`);
+      options?.usage?.record(stage, model, cached.usage, { cached: true });
+      return cached;
+    }
+  }
+
+  const completion = await withRetry(() => provider.complete(request), {
+    policy: resolveRetryPolicy(options?.retry),
+    isRetryable: isRetryableLlmError,
+    signal: options?.signal,
+    retryAfterMs: (error) =>
+      error instanceof LlmApiError ? error.retryAfterMs : undefined,
+    onRetry: ({ attempt, maxRetries, delayMs, error }) => {
+      const reason = error instanceof Error ? error.message : String(error);
+      log(
+        `  retry ${attempt}/${maxRetries} in ${(delayMs / 1000).toFixed(1)}s: ${reason}`,
+      );
+    },
+  });
+
+  options?.usage?.record(stage, model, completion.usage);
+  if (useCache && (options?.isCacheable?.(completion) ?? true)) {
+    await writeLlmCache(cacheKey, model, completion);
+  }
+  return completion;
+}
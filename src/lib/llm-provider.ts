@@ -0,0 +1,158 @@
+import type { JsonSchema } from "./json-schema";
+
+export type LlmContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source: {
+        type: "base64";
+        media_type: string;
+        data: string;
+      };
+    };
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string | LlmContentBlock[];
+}
+
+export interface LlmChatMessage {
+  role: "user" | "assistant";
+  content: string | LlmContentBlock[];
+}
+
+/** A tool the model is forced to call; its arguments are the structured output. */
+export interface LlmToolSpec {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+export interface LlmRequest {
+  model: string;
+  system?: string;
+  messages: LlmChatMessage[];
+  maxTokens?: number;
+  apiKey: string;
+  stream?: boolean;
+  onLog?: (msg: string) => void;
+  tool?: LlmToolSpec;
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  usage: LlmUsage;
+  stopReason: string | null;
+  /** Arguments of the forced tool call, when the request named a tool. */
+  toolInput?: unknown;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  readonly apiKeyEnv: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+export function emptyUsage(): LlmUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+  };
+}
+
+export class LlmApiError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly status: number | undefined,
+    readonly errorType: string,
+    readonly detail: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(`${provider} API error: ${status ?? "stream"} - ${errorType}: ${detail}`);
+    this.name = "LlmApiError";
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 529]);
+const RETRYABLE_ERROR_TYPES = new Set([
+  "overloaded_error",
+  "rate_limit_error",
+  "rate_limit_exceeded",
+  "api_error",
+  "server_error",
+]);
+
+export function isRetryableLlmError(error: unknown): boolean {
+  if (error instanceof LlmApiError) {
+    // Errors sent mid-stream have no status, so only their type tells them apart.
+    // With a status, the type is not trusted: clients default it to "api_error"
+    // when the body has none, which would make a 400 or 401 look retryable.
+    if (error.status === undefined) {
+      return RETRYABLE_ERROR_TYPES.has(error.errorType);
+    }
+    return RETRYABLE_STATUSES.has(error.status) || error.status >= 500;
+  }
+  // fetch rejects with a TypeError on connection resets and DNS failures.
+  return error instanceof TypeError;
+}
+
+export async function* readSseData(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const dataLines = rawEvent
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart());
+      if (dataLines.length > 0) {
+        yield dataLines.join("\n");
+      }
+    }
+  }
+}
+
+const STREAM_PROGRESS_INTERVAL_MS = 10_000;
+
+export function createStreamProgress(onLog?: (msg: string) => void) {
+  const log = onLog ?? ((msg: string) => console.log(msg));
+  let lastProgress = Date.now();
+
+  return {
+    update(textLength: number) {
+      if (Date.now() - lastProgress < STREAM_PROGRESS_INTERVAL_MS) return;
+      lastProgress = Date.now();
+      // Output token counts only arrive at the end of a stream, so estimate from text length meanwhile.
+      log(`  ... ~${Math.round(textLength / 4).toLocaleString()} tokens so far`);
+    },
+    finish(usage: LlmUsage, stopReason: string | null) {
+      log(
+        `  ${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out tokens, stop: ${stopReason ?? "unknown"}`,
+      );
+    },
+  };
+}
@@ -0,0 +1,253 @@
+import {
+  LlmApiError,
+  createStreamProgress,
+  emptyUsage,
+  readSseData,
+  type LlmChatMessage,
+  type LlmCompletion,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmUsage,
+} from "./llm-provider";
+import { fixtureFetch } from "./http-fixtures";
+import { parseRetryAfterMs } from "./retry";
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+  error?: { type?: string; code?: string; message?: string };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+  error?: { type?: string; code?: string; message?: string };
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o";
+
+function toLlmUsage(usage: ChatCompletionUsage | null | undefined): LlmUsage {
+  if (!usage) return emptyUsage();
+  const cached = usage.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    inputTokens: (usage.prompt_tokens ?? 0) - cached,
+    outputTokens: usage.completion_tokens ?? 0,
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+  };
+}
+
+export function createOpenAiProvider(
+  baseUrl: string = DEFAULT_BASE_URL,
+): LlmProvider {
+  return {
+    name: "OpenAI-compatible",
+    defaultModel: DEFAULT_MODEL,
+    apiKeyEnv: "OPENAI_API_KEY",
+    complete: (request) => sendChatCompletionRequest(baseUrl, request),
+  };
+}
+
+function toChatCompletionMessages(
+  system: string | undefined,
+  messages: LlmChatMessage[],
+): Array<Record<string, unknown>> {
+  const converted: Array<Record<string, unknown>> = [];
+  if (system) {
+    converted.push({ role: "system", content: system });
+  }
+
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      converted.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    converted.push({
+      role: message.role,
+      content: message.content.map((part) =>
+        part.type === "text"
+          ? { type: "text", text: part.text }
+          : {
+              type: "image_url",
+              image_url: {
+                url: `data:${part.source.media_type};base64,${part.source.data}`,
+              },
+            },
+      ),
+    });
+  }
+
+  return converted;
+}
+
+function parseToolArguments(toolArguments: string | undefined): unknown {
+  if (toolArguments === undefined) return undefined;
+  try {
+    return JSON.parse(toolArguments);
+  } catch {
+    // Leave it undefined; the structured-output caller re-asks with the error.
+    return undefined;
+  }
+}
+
+async function sendChatCompletionRequest(
+  baseUrl: string,
+  request: LlmRequest,
+): Promise<LlmCompletion> {
+  const body: Record<string, unknown> = {
+    model: request.model,
+    messages: toChatCompletionMessages(request.system, request.messages),
+  };
+
+  // Local servers reject limits above their context size, so only send one when asked.
+  if (request.maxTokens !== undefined) {
+    body.max_tokens = request.maxTokens;
+  }
+
+  if (request.tool) {
+    body.tools = [
+      {
+        type: "function",
+        function: {
+          name: request.tool.name,
+          description: request.tool.description,
+          parameters: request.tool.inputSchema,
+        },
+      },
+    ];
+    body.tool_choice = {
+      type: "function",
+      function: { name: request.tool.name },
+    };
+  }
+
+  if (request.stream) {
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (request.apiKey) {
+    headers.Authorization = `Bearer ${request.apiKey}`;
+  }
+
+  const response = await fixtureFetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    signal: request.signal,
+  });
+
+  if (request.stream && response.ok && response.body) {
+    return readChatCompletionStream(response.body, request.onLog);
+  }
+
+  const rawBody = await response.text();
+  let data: ChatCompletionResponse;
+  try {
+    data = JSON.parse(rawBody) as ChatCompletionResponse;
+  } catch {
+    data = { error: { message: rawBody.slice(0, 500) } };
+  }
+
+  if (!response.ok || data.error) {
+    throw new LlmApiError(
+      "OpenAI-compatible",
+      response.status,
+      data.error?.code || data.error?.type || "api_error",
+      data.error?.message || JSON.stringify(data),
+      parseRetryAfterMs(response.headers.get("retry-after")),
+    );
+  }
+
+  const choice = data.choices?.[0];
+  const text = choice?.message?.content ?? "";
+  const toolArguments = choice?.message?.tool_calls?.[0]?.function?.arguments;
+  if (!text && toolArguments === undefined) {
+    throw new Error("OpenAI-compatible server returned empty content");
+  }
+
+  const toolInput = parseToolArguments(toolArguments);
+
+  return {
+    text: text || (toolInput === undefined ? toolArguments ?? "" : ""),
+    usage: toLlmUsage(data.usage),
+    stopReason: choice?.finish_reason ?? null,
+    toolInput,
+  };
+}
+
+async function readChatCompletionStream(
+  stream: ReadableStream<Uint8Array>,
+  onLog?: (msg: string) => void,
+): Promise<LlmCompletion> {
+  const progress = createStreamProgress(onLog);
+  let text = "";
+  let usage = emptyUsage();
+  let stopReason: string | null = null;
+  let toolArguments: string | undefined;
+
+  for await (const data of readSseData(stream)) {
+    if (data === "[DONE]") break;
+
+    const chunk = JSON.parse(data) as ChatCompletionChunk;
+    if (chunk.error) {
+      throw new LlmApiError(
+        "OpenAI-compatible",
+        undefined,
+        chunk.error.code || chunk.error.type || "api_error",
+        chunk.error.message || data,
+      );
+    }
+
+    const choice = chunk.choices?.[0];
+    if (choice?.delta?.content) {
+      text += choice.delta.content;
+    }
+    const toolDelta = choice?.delta?.tool_calls?.[0]?.function?.arguments;
+    if (toolDelta !== undefined) {
+      toolArguments = (toolArguments ?? "") + toolDelta;
+    }
+    stopReason = choice?.finish_reason ?? stopReason;
+    if (chunk.usage) {
+      usage = toLlmUsage(chunk.usage);
+    }
+    progress.update(text.length + (toolArguments?.length ?? 0));
+  }
+
+  progress.finish(usage, stopReason);
+
+  if (!text && toolArguments === undefined) {
+    throw new Error("OpenAI-compatible server returned empty content");
+  }
+
+  const toolInput = parseToolArguments(toolArguments);
+  return {
+    text: text || (toolInput === undefined ? toolArguments ?? "" : ""),
+    usage,
+    stopReason,
+    toolInput,
+  };
+}
@@ -1,6 +1,8 @@
 import { spawn } from "child_process";
 import path from "path";
-import { callAnthropic, MODELS } from "./anthropic-client";
+import type { JsonSchema } from "./json-schema";
+import { getModel, type LlmJobOptions } from "./llm-client";
+import { callLlmStructured } from "./structured-output";
 
 export interface OpenCodeRunOptions {
   message: string;
@@ -70,8 +72,8 @@ export async function analyzeLabWithOpenAI(
   notes: string | undefined,
   apiKey: string,
   onLog: (msg: string) => void,
+  llmOptions: LlmJobOptions = {},
 ): Promise<LabAnalysisResult> {
-  const { callAnthropic } = await import("./anthropic-client");
   const fs = await import("fs/promises");
 
   // Read directory structure
@@ -148,7 +150,7 @@ Your task is to analyze this lab and generate the necessary files for the course
    - What Docker image to use
    - Any preprocessing needed
 
-Output a JSON object with this structure:
+Record the result with this structure:
 {
   "course_metadata": {
     "course_id": "mit_6_5840_2024",
@@ -180,64 +182,28 @@ Be thorough in identifying all tasks. Look for:
 - Multiple main entry points
 - Makefile targets
 
-Output ONLY valid JSON, no other text.`;
+Return the result by calling the record_lab_analysis tool.`;
 
-  onLog(`  -> Using generator model: ${MODELS.generator}`);
-  const generatedResponse = await callAnthropic(
+  onLog(`  -> Using analysis model: ${getModel("labAnalysis")}`);
+  return callLlmStructured<LabAnalysisResult>(
     [
       {
         role: "system",
         content:
-          "You are an expert at analyzing programming lab repositories. Output only valid JSON.",
+          "You are an expert at analyzing programming lab repositories.",
       },
       { role: "user", content: analysisPrompt },
     ],
     apiKey,
-    MODELS.generator,
-  );
-
-  onLog(`  -> Validating with judge model: ${MODELS.judge}`);
-  const judgePrompt = `You are a meticulous judge that validates and corrects lab analysis JSON for the courselab benchmark.
-
-Review the following JSON output and fix any issues:
-1. Ensure course_metadata has all required fields (course_id, name, institution, year)
-2. Ensure each task has valid task_id, artifacts, docker_image, evaluate_commands
-3. Fix any JSON syntax errors
-4. Ensure task_ids are lowercase with underscores
-5. Verify artifacts paths look reasonable
-
-If you find errors, output the CORRECTED JSON.
-If everything is correct, output the original JSON unchanged.
-
-Output ONLY valid JSON, no explanations.
-
-JSON to validate:
-${generatedResponse}`;
-
-  const response = await callAnthropic(
-    [
-      {
-        role: "system",
-        content: "You are an expert JSON validator. Output only valid JSON.",
-      },
-      { role: "user", content: judgePrompt },
-    ],
-    apiKey,
-    MODELS.judge,
+    "labAnalysis",
+    {
+      toolName: "record_lab_analysis",
+      description:
+        "Record the course metadata, tasks and task descriptions for the courselab benchmark entry.",
+      schema: LAB_ANALYSIS_SCHEMA,
+    },
+    { ...llmOptions, onLog, stream: true },
   );
-
-  try {
-    let jsonStr = response;
-    const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1];
-    }
-    return JSON.parse(jsonStr.trim());
-  } catch (e) {
-    throw new Error(
-      `Failed to parse AI response as JSON: ${e}\n\nResponse:\n${response}`,
-    );
-  }
 }
 
 export interface LabAnalysisResult {
@@ -261,6 +227,58 @@ export interface LabAnalysisResult {
   task_descriptions: Record<string, string>;
 }
 
+const stringArray: JsonSchema = { type: "array", items: { type: "string" } };
+
+const LAB_ANALYSIS_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["course_metadata", "tasks", "task_descriptions"],
+  additionalProperties: false,
+  properties: {
+    course_metadata: {
+      type: "object",
+      required: ["course_id", "name", "institution", "year"],
+      properties: {
+        course_id: { type: "string", pattern: "^[a-z0-9_]+$" },
+        name: { type: "string", minLength: 1 },
+        institution: { type: "string", minLength: 1 },
+        year: { type: "integer", minimum: 1900 },
+      },
+    },
+    tasks: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: [
+          "task_id",
+          "description",
+          "artifacts",
+          "docker_image",
+          "working_dir",
+          "evaluate_commands",
+          "timeout_minutes",
+          "tags",
+        ],
+        properties: {
+          task_id: { type: "string", pattern: "^[a-z0-9_]+$" },
+          description: { type: "string" },
+          artifacts: stringArray,
+          docker_image: { type: "string", minLength: 1 },
+          working_dir: { type: "string", minLength: 1 },
+          evaluate_commands: { ...stringArray, minItems: 1 },
+          preprocess_commands: stringArray,
+          timeout_minutes: { type: "integer", minimum: 1 },
+          tags: stringArray,
+        },
+      },
+    },
+    task_descriptions: {
+      type: "object",
+      additionalProperties: { type: "string" },
+    },
+  },
+};
+
 async function getDirectoryStructure(
   dir: string,
   maxDepth: number,
@@ -0,0 +1,205 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { pdf } from "pdf-to-img";
+import { mapWithConcurrency } from "./concurrency";
+import type { JsonSchema } from "./json-schema";
+import { getOcrLimits, type ExtractTextOptions } from "./pdf-utils";
+import { callLlmStructured } from "./structured-output";
+
+export interface ExtractedFigure {
+  fileName: string;
+  page: number;
+  /** Caption label as printed on the page, e.g. "Figure 2", or "" if unlabeled. */
+  label: string;
+  description: string;
+  data: Buffer;
+}
+
+interface FigureRegion {
+  label: string;
+  description: string;
+  box: { left: number; top: number; right: number; bottom: number };
+}
+
+// Regions smaller than this fraction of the page in either direction are dropped.
+const MIN_FIGURE_FRACTION = 0.03;
+const FIGURE_PADDING_FRACTION = 0.01;
+
+const fraction: JsonSchema = { type: "number", minimum: 0, maximum: 1 };
+
+const FIGURE_REGIONS_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["figures"],
+  additionalProperties: false,
+  properties: {
+    figures: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["label", "description", "box"],
+        properties: {
+          label: { type: "string" },
+          description: { type: "string", minLength: 1 },
+          box: {
+            type: "object",
+            required: ["left", "top", "right", "bottom"],
+            properties: {
+              left: fraction,
+              top: fraction,
+              right: fraction,
+              bottom: fraction,
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const FIGURE_DETECTION_PROMPT = `This is one rendered page of an exam. Find every figure a student needs to see to answer a question: diagrams, page tables and memory layouts drawn as boxes, timing or Gantt charts, graphs, state machines, circuit drawings and screenshots of code or terminal output.
+
+Do NOT report ordinary paragraphs, headings, answer blanks, logos, or plain tables and code that are typeset as text.
+
+For each figure give a tight bounding box as fractions of the page size, with (0, 0) at the top-left corner and (1, 1) at the bottom-right. Include the figure's own caption if it has one. Use the printed label (for example "Figure 2") if there is one, otherwise an empty string. Describe what the figure shows in one sentence.
+
+Return the result by calling the record_figures tool. Return an empty list if the page has no figures.`;
+
+// Opt-in: detection costs one vision call per page on top of OCR.
+export function isFigureExtractionEnabled(): boolean {
+  const value = process.env.SIB_EXTRACT_FIGURES?.toLowerCase();
+  return value === "true" || value === "1" || value === "on";
+}
+
+export async function extractFiguresFromPdf(
+  buffer: Buffer,
+  apiKey: string,
+  options: ExtractTextOptions = {},
+): Promise<ExtractedFigure[]> {
+  const log = options.onLog ?? ((msg: string) => console.log(msg));
+  const pdfDocument = await pdf(buffer, { scale: 2.0 });
+  const pageCount = pdfDocument.length;
+  const { concurrency, maxPages } = getOcrLimits();
+  if (pageCount > maxPages) {
+    log(`  skipped: ${pageCount} pages is over SIB_OCR_MAX_PAGES (${maxPages})`);
+    return [];
+  }
+
+  const pageNumbers = Array.from({ length: pageCount }, (_, i) => i + 1);
+  const pageFigures = await mapWithConcurrency(
+    pageNumbers,
+    concurrency,
+    async (pageNum) => {
+      // Figures are optional: a page that fails is logged and contributes none.
+      try {
+        const image = await pdfDocument.getPage(pageNum);
+        const crops = await detectPageFigures(image, pageNum, apiKey, options);
+        if (crops.length > 0) {
+          log(`  page ${pageNum}/${pageCount}: ${crops.length} figure(s)`);
+        }
+        return crops;
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        log(`  page ${pageNum}/${pageCount} failed: ${reason}`);
+        return [];
+      }
+    },
+    options.signal,
+  );
+
+  return pageFigures.flat();
+}
+
+async function detectPageFigures(
+  image: Buffer,
+  pageNum: number,
+  apiKey: string,
+  options: ExtractTextOptions,
+): Promise<ExtractedFigure[]> {
+  const { figures } = await callLlmStructured<{ figures: FigureRegion[] }>(
+    [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: FIGURE_DETECTION_PROMPT },
+          {
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: "image/png",
+              data: image.toString("base64"),
+            },
+          },
+        ],
+      },
+    ],
+    apiKey,
+    "figures",
+    {
+      toolName: "record_figures",
+      description: "Record the figure regions found on this exam page.",
+      schema: FIGURE_REGIONS_SCHEMA,
+    },
+    { ...options, maxTokens: 2048 },
+  );
+
+  const crops: ExtractedFigure[] = [];
+  for (const region of figures) {
+    const data = await cropRegion(image, region.box);
+    if (!data) continue;
+    crops.push({
+      fileName: `figure_p${pageNum}_${crops.length + 1}.png`,
+      page: pageNum,
+      label: region.label.trim(),
+      description: region.description.trim(),
+      data,
+    });
+  }
+  return crops;
+}
+
+export async function extractFiguresFromFile(
+  file: File,
+  apiKey: string,
+  options: ExtractTextOptions = {},
+): Promise<ExtractedFigure[]> {
+  if (!file.name.toLowerCase().endsWith(".pdf")) {
+    return [];
+  }
+  return extractFiguresFromPdf(
+    Buffer.from(await file.arrayBuffer()),
+    apiKey,
+    options,
+  );
+}
+
+async function cropRegion(
+  pageImage: Buffer,
+  box: FigureRegion["box"],
+): Promise<Buffer | null> {
+  const left = Math.max(0, Math.min(box.left, box.right) - FIGURE_PADDING_FRACTION);
+  const top = Math.max(0, Math.min(box.top, box.bottom) - FIGURE_PADDING_FRACTION);
+  const right = Math.min(1, Math.max(box.left, box.right) + FIGURE_PADDING_FRACTION);
+  const bottom = Math.min(1, Math.max(box.top, box.bottom) + FIGURE_PADDING_FRACTION);
+  if (right - left < MIN_FIGURE_FRACTION || bottom - top < MIN_FIGURE_FRACTION) {
+    return null;
+  }
+
+  const image = await loadImage(pageImage);
+  const x = Math.round(left * image.width);
+  const y = Math.round(top * image.height);
+  const width = Math.round((right - left) * image.width);
+  const height = Math.round((bottom - top) * image.height);
+
+  const canvas = createCanvas(width, height);
+  canvas.getContext("2d").drawImage(image, x, y, width, height, 0, 0, width, height);
+  return canvas.encode("png");
+}
+
+export function formatFigureList(figures: ExtractedFigure[]): string {
+  return figures
+    .map((figure) => {
+      const label = figure.label ? `, "${figure.label}"` : "";
+      return `- ${figure.fileName} (page ${figure.page}${label}): ${figure.description}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { layoutPageText, type PdfLayoutItem, type PdfLayoutStyles } from "./pdf-layout";
+
+const STYLES: PdfLayoutStyles = {
+  F1: { fontFamily: "sans-serif" },
+  M1: { fontFamily: "monospace" },
+};
+
+// Proportional text is 5 units per character and monospace 6, both 10 units tall.
+function item(str: string, x: number, y: number, fontName: string, charWidth: number) {
+  return { str, transform: [10, 0, 0, 10, x, y], width: str.length * charWidth, height: 10, fontName };
+}
+
+const text = (str: string, x: number, y: number): PdfLayoutItem => item(str, x, y, "F1", 5);
+const mono = (str: string, x: number, y: number): PdfLayoutItem => item(str, x, y, "M1", 6);
+
+describe("layoutPageText", () => {
+  it("returns nothing for an empty page", () => {
+    expect(layoutPageText([], STYLES)).toBe("");
+    expect(layoutPageText([text("", 72, 700)], STYLES)).toBe("");
+  });
+
+  it("reads lines top to bottom and breaks paragraphs on large gaps", () => {
+    const items = [
+      text("Question 2", 72, 650),
+      text("paging.", 72 + 8 * 5, 688),
+      text("Question 1", 72, 700),
+      text("Explain", 72, 688),
+    ];
+    expect(layoutPageText(items, STYLES)).toBe("Question 1\nExplain paging.\n\nQuestion 2");
+  });
+
+  it("fences monospace lines and keeps their indentation", () => {
+    const items = [
+      text("Consider:", 72, 700),
+      mono("int main() {", 72, 680),
+      mono("return 0;", 72 + 4 * 6, 668),
+      mono("}", 72, 656),
+    ];
+    expect(layoutPageText(items, STYLES)).toBe(
+      ["Consider:", "", "```", "int main() {", "    return 0;", "}", "```"].join("\n"),
+    );
+  });
+
+  it("turns column-aligned rows into a markdown table", () => {
+    const items = [
+      text("Page", 72, 700),
+      text("Frame", 200, 700),
+      text("Valid", 300, 700),
+      text("0", 72, 688),
+      text("7", 200, 688),
+      text("1", 300, 688),
+      text("1", 72, 676),
+      text("", 200, 676),
+      text("0", 300, 676),
+    ];
+    expect(layoutPageText(items, STYLES)).toBe(
+      [
+        "| Page | Frame | Valid |",
+        "| --- | --- | --- |",
+        "| 0 | 7 | 1 |",
+        "| 1 |  | 0 |",
+      ].join("\n"),
+    );
+  });
+
+  it("reads two-column pages one column at a time", () => {
+    const items: PdfLayoutItem[] = [text("Operating Systems Final Exam, Spring Term", 100, 760)];
+    for (let i = 0; i < 6; i++) {
+      items.push(text(`Left column line ${i} of the page text`, 50, 700 - 12 * i));
+      items.push(text(`Right column line ${i} of the page text`, 320, 700 - 12 * i));
+    }
+    const left = Array.from({ length: 6 }, (_, i) => `Left column line ${i} of the page text`);
+    const right = Array.from({ length: 6 }, (_, i) => `Right column line ${i} of the page text`);
+    expect(layoutPageText(items, STYLES)).toBe(
+      ["Operating Systems Final Exam, Spring Term", left.join("\n"), right.join("\n")].join("\n\n"),
+    );
+  });
+});
@@ -0,0 +1,305 @@
+export interface PdfLayoutItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  fontName: string;
+}
+
+export interface PdfLayoutStyles {
+  [fontName: string]: { fontFamily?: string } | undefined;
+}
+
+interface Run {
+  item: PdfLayoutItem;
+  text: string;
+  x: number;
+  right: number;
+  monospace: boolean;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  runs: Run[];
+}
+
+type Block =
+  | { kind: "text"; lines: Line[] }
+  | { kind: "code"; lines: Line[] }
+  | { kind: "table"; lines: Line[] };
+
+// A horizontal gap this many character widths wide separates table cells.
+const CELL_GAP_CHARS = 3;
+// A vertical gap this many line heights tall starts a new paragraph.
+const PARAGRAPH_GAP_LINES = 1.6;
+// Two-cell rows whose cells are this long on average are prose columns, not a table.
+const MIN_COLUMN_CELL_CHARS = 25;
+
+function median(values: number[], fallback: number): number {
+  if (values.length === 0) return fallback;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function groupLines(items: PdfLayoutItem[], styles: PdfLayoutStyles): Line[] {
+  const lines: Line[] = [];
+  const sorted = items
+    .filter((item) => item.str.length > 0)
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+
+  for (const item of sorted) {
+    const y = item.transform[5];
+    const size = Math.abs(item.height || item.transform[3]) || 10;
+    const run: Run = {
+      item,
+      text: item.str,
+      x: item.transform[4],
+      right: item.transform[4] + item.width,
+      monospace: styles[item.fontName]?.fontFamily === "monospace",
+    };
+
+    // Items within half a line of each other's baseline share a line.
+    const line = lines.find((candidate) => Math.abs(candidate.y - y) < size / 2);
+    if (line) {
+      line.runs.push(run);
+      line.size = Math.max(line.size, size);
+    } else {
+      lines.push({ y, size, runs: [run] });
+    }
+  }
+
+  for (const line of lines) {
+    line.runs.sort((a, b) => a.x - b.x);
+  }
+  return lines.sort((a, b) => b.y - a.y);
+}
+
+function isCodeLine(line: Line): boolean {
+  const visible = line.runs.filter((run) => run.text.trim().length > 0);
+  return visible.length > 0 && visible.every((run) => run.monospace);
+}
+
+function splitCells(line: Line, charWidth: number): Run[] {
+  const cells: Run[] = [];
+  for (const run of line.runs) {
+    if (run.text.trim().length === 0) continue;
+    const previous = cells[cells.length - 1];
+    if (previous && run.x - previous.right < CELL_GAP_CHARS * charWidth) {
+      const gap = run.x - previous.right > charWidth / 4 ? " " : "";
+      previous.text = `${previous.text}${gap}${run.text}`;
+      previous.right = run.right;
+    } else {
+      cells.push({ ...run, text: run.text });
+    }
+  }
+  return cells;
+}
+
+function renderTextLine(line: Line, charWidth: number): string {
+  return splitCells(line, charWidth)
+    .map((cell) => cell.text.trim())
+    .join("  ");
+}
+
+function renderCodeLine(line: Line, left: number, charWidth: number): string {
+  let text = "";
+  let column = 0;
+  for (const run of line.runs) {
+    const target = Math.max(0, Math.round((run.x - left) / charWidth));
+    if (target > column) {
+      text += " ".repeat(target - column);
+      column = target;
+    } else if (text.length > 0 && !text.endsWith(" ") && !run.text.startsWith(" ")) {
+      // Runs that overlap after rounding still need a separator if the PDF had a gap.
+      const previousRight = left + column * charWidth;
+      if (run.x - previousRight > charWidth / 2) {
+        text += " ";
+        column += 1;
+      }
+    }
+    text += run.text;
+    column += run.text.length;
+  }
+  return text.replace(/\s+$/, "");
+}
+
+function renderTable(lines: Line[], charWidth: number): string {
+  const rows = lines.map((line) => splitCells(line, charWidth));
+  const widest = rows.reduce((best, row) => (row.length > best.length ? row : best), rows[0]);
+  const columnStarts = widest.map((cell) => cell.x);
+
+  const grid = rows.map((row) => {
+    const cells = columnStarts.map(() => "");
+    for (const cell of row) {
+      let column = 0;
+      for (let i = 1; i < columnStarts.length; i++) {
+        if (Math.abs(columnStarts[i] - cell.x) < Math.abs(columnStarts[column] - cell.x)) {
+          column = i;
+        }
+      }
+      cells[column] = cells[column] ? `${cells[column]} ${cell.text.trim()}` : cell.text.trim();
+    }
+    return `| ${cells.map((cell) => cell.replace(/\|/g, "\\|")).join(" | ")} |`;
+  });
+
+  const separator = `| ${columnStarts.map(() => "---").join(" | ")} |`;
+  return [grid[0], separator, ...grid.slice(1)].join("\n");
+}
+
+// Rows whose first cell is long prose are a text column next to something else
+// (a second column, figure labels) that the page-level gutter check missed, not a
+// table. Read the left column first, then whatever sat beside it.
+function isProseColumns(rows: Run[][]): boolean {
+  return (
+    median(
+      rows.map((row) => row[0].text.length),
+      0,
+    ) >= MIN_COLUMN_CELL_CHARS
+  );
+}
+
+function renderProseColumns(rows: Run[][]): string {
+  const gutter = median(
+    rows.filter((row) => row.length >= 2).map((row) => row[1].x),
+    0,
+  );
+  // Split halfway between the left margin and the gutter so hanging bullets stay right.
+  const split = (Math.min(...rows.map((row) => row[0].x)) + gutter) / 2;
+  const left: string[] = [];
+  const right: string[] = [];
+  for (const row of rows) {
+    const rightCells = row.filter((cell) => cell.x >= split);
+    const leftCells = row.filter((cell) => cell.x < split);
+    if (leftCells.length > 0) left.push(leftCells.map((cell) => cell.text.trim()).join("  "));
+    if (rightCells.length > 0) right.push(rightCells.map((cell) => cell.text.trim()).join("  "));
+  }
+  return [left.join("\n"), right.join("\n")].filter((text) => text.length > 0).join("\n\n");
+}
+
+function estimateCharWidth(lines: Line[], monospaceOnly: boolean, fallback: number): number {
+  const widths = lines.flatMap((line) =>
+    line.runs
+      .filter((run) => run.text.trim().length > 0 && (!monospaceOnly || run.monospace))
+      .map((run) => (run.right - run.x) / run.text.length),
+  );
+  return median(widths, fallback) || fallback;
+}
+
+// Returns the x position between two text columns, or null for single-column pages.
+function findColumnGutter(lines: Line[], charWidth: number): number | null {
+  const rows = lines
+    .filter((line) => !isCodeLine(line))
+    .map((line) => splitCells(line, charWidth))
+    .filter((cells) => cells.length === 2);
+  if (rows.length < Math.max(5, lines.length * 0.3)) return null;
+
+  const gutter = median(
+    rows.map((cells) => cells[1].x),
+    0,
+  );
+  const aligned = rows.filter((cells) => Math.abs(cells[1].x - gutter) < 2 * charWidth);
+  const cellLength = median(
+    aligned.flatMap((cells) => cells.map((cell) => cell.text.length)),
+    0,
+  );
+  if (aligned.length < rows.length * 0.8 || cellLength < MIN_COLUMN_CELL_CHARS) {
+    return null;
+  }
+  return gutter - charWidth;
+}
+
+/**
+ * Rebuilds a page's text from pdf.js text item positions: monospace runs become
+ * fenced code with their indentation, column-aligned rows become markdown tables,
+ * and large vertical gaps become paragraph breaks.
+ */
+export function layoutPageText(
+  items: PdfLayoutItem[],
+  styles: PdfLayoutStyles,
+  splitColumns = true,
+): string {
+  const lines = groupLines(items, styles);
+  if (lines.length === 0) return "";
+
+  const charWidth = estimateCharWidth(lines, false, 5);
+  const monoCharWidth = estimateCharWidth(lines, true, charWidth);
+
+  // Two-column pages read down the left column first, then the right. Lines that
+  // span the gutter (titles, author blocks, wide figures) split the page into sections.
+  const gutter = splitColumns ? findColumnGutter(lines, charWidth) : null;
+  if (gutter !== null) {
+    const sections: Array<{ fullWidth: boolean; lines: Line[] }> = [];
+    for (const line of lines) {
+      const fullWidth = splitCells(line, charWidth).some(
+        (cell) => cell.x < gutter && cell.right > gutter + charWidth,
+      );
+      const last = sections[sections.length - 1];
+      if (last && last.fullWidth === fullWidth) {
+        last.lines.push(line);
+      } else {
+        sections.push({ fullWidth, lines: [line] });
+      }
+    }
+
+    const sectionItems = (section: Line[], keep: (item: PdfLayoutItem) => boolean) =>
+      section.flatMap((line) => line.runs.map((run) => run.item)).filter(keep);
+
+    return sections
+      .flatMap((section) =>
+        section.fullWidth
+          ? [layoutPageText(sectionItems(section.lines, () => true), styles, false)]
+          : [
+              layoutPageText(
+                sectionItems(section.lines, (item) => item.transform[4] < gutter),
+                styles,
+                false,
+              ),
+              layoutPageText(
+                sectionItems(section.lines, (item) => item.transform[4] >= gutter),
+                styles,
+                false,
+              ),
+            ],
+      )
+      .filter((text) => text.length > 0)
+      .join("\n\n");
+  }
+
+  const blocks: Block[] = [];
+  for (const line of lines) {
+    const kind: Block["kind"] = isCodeLine(line)
+      ? "code"
+      : splitCells(line, charWidth).length >= 2
+        ? "table"
+        : "text";
+    const last = blocks[blocks.length - 1];
+    const previousLine = last?.lines[last.lines.length - 1];
+    const gap = previousLine ? previousLine.y - line.y : 0;
+    const newParagraph = gap > PARAGRAPH_GAP_LINES * Math.max(previousLine?.size ?? 0, line.size);
+
+    if (last && last.kind === kind && !(kind === "text" && newParagraph)) {
+      last.lines.push(line);
+    } else {
+      blocks.push({ kind, lines: [line] } as Block);
+    }
+  }
+
+  const rendered: string[] = [];
+  for (const block of blocks) {
+    if (block.kind === "code") {
+      const left = Math.min(...block.lines.map((line) => line.runs[0].x));
+      const body = block.lines.map((line) => renderCodeLine(line, left, monoCharWidth));
+      rendered.push(["```", ...body, "```"].join("\n"));
+    } else if (block.kind === "table" && block.lines.length >= 2) {
+      const rows = block.lines.map((line) => splitCells(line, charWidth));
+      rendered.push(
+        isProseColumns(rows) ? renderProseColumns(rows) : renderTable(block.lines, charWidth),
+      );
+    } else {
+      rendered.push(block.lines.map((line) => renderTextLine(line, charWidth)).join("\n"));
+    }
+  }
+
+  return rendered.join("\n\n");
+}
@@ -1,90 +1,314 @@
 import { pdf } from "pdf-to-img";
-import { callAnthropic } from "./anthropic-client";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  extractTextFromDocx,
+  extractTextFromHtml,
+  extractTextFromLatex,
+} from "./document-extractors";
+import { callLlm, type LlmJobOptions } from "./llm-client";
+import { isRetryableLlmError, LlmApiError } from "./llm-provider";
+import {
+  layoutPageText,
+  type PdfLayoutItem,
+  type PdfLayoutStyles,
+} from "./pdf-layout";
+import { formatPageList, joinPages } from "./provenance";
 
-const MIN_TEXT_LENGTH = 100;
+// Non-whitespace characters a page's text layer needs before OCR is skipped for it.
+const MIN_PAGE_TEXT_LENGTH = 100;
+const DEFAULT_OCR_CONCURRENCY = 4;
+const DEFAULT_OCR_MAX_PAGES = 60;
+// Bounds the whole document, text layer included; SIB_OCR_MAX_PAGES only counts OCR pages.
+const DEFAULT_PDF_MAX_PAGES = 200;
+// Each page also gets the LLM client's own retries; a round re-OCRs only the pages that still failed.
+const OCR_PAGE_ROUNDS = 2;
+// Above this share of failed pages the text is mostly placeholders, so the job stops
+// instead of paying for generation on it.
+const MAX_OCR_FAILED_SHARE = 0.5;
+
+export type ExtractTextOptions = LlmJobOptions;
+
+export function getOcrLimits(): {
+  concurrency: number;
+  maxPages: number;
+  maxDocumentPages: number;
+} {
+  const concurrency = Number(process.env.SIB_OCR_CONCURRENCY);
+  const maxPages = Number(process.env.SIB_OCR_MAX_PAGES);
+  const maxDocumentPages = Number(process.env.SIB_PDF_MAX_PAGES);
+  return {
+    concurrency:
+      Number.isInteger(concurrency) && concurrency > 0
+        ? concurrency
+        : DEFAULT_OCR_CONCURRENCY,
+    maxPages:
+      Number.isInteger(maxPages) && maxPages > 0
+        ? maxPages
+        : DEFAULT_OCR_MAX_PAGES,
+    maxDocumentPages:
+      Number.isInteger(maxDocumentPages) && maxDocumentPages > 0
+        ? maxDocumentPages
+        : DEFAULT_PDF_MAX_PAGES,
+  };
+}
 
 export async function extractTextFromPdf(buffer: Buffer): Promise<string> {
+  const pages = await extractPdfPages(buffer);
+  return joinPages(pages.map((text, index) => ({ page: index + 1, text })));
+}
+
+interface PdfParsePage {
+  pageIndex: number;
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: PdfLayoutItem[]; styles: PdfLayoutStyles }>;
+}
+
+export function isPdfLayoutEnabled(): boolean {
+  const value = process.env.SIB_PDF_LAYOUT?.toLowerCase();
+  return value !== "false" && value !== "0" && value !== "off";
+}
+
+// Same line-joining as pdf-parse's default renderer.
+function plainPageText(items: PdfLayoutItem[]): string {
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+}
+
+export async function extractPdfPages(
+  buffer: Buffer,
+  options: { layout?: boolean } = {},
+): Promise<string[]> {
+  const layout = options.layout ?? isPdfLayoutEnabled();
+  const pages: string[] = [];
   try {
     const { default: pdfParse } = await import("pdf-parse/lib/pdf-parse.js");
-    const data = await pdfParse(buffer);
-    return data.text;
+    await pdfParse(buffer, {
+      pagerender: async (pageData: PdfParsePage) => {
+        const content = await pageData.getTextContent({
+          normalizeWhitespace: false,
+          disableCombineTextItems: false,
+        });
+        const text = layout
+          ? layoutPageText(content.items, content.styles)
+          : plainPageText(content.items);
+        pages[pageData.pageIndex] = text;
+        return text;
+      },
+    });
   } catch (error) {
     throw new Error(`Failed to parse PDF: ${error}`);
   }
+  return Array.from(pages, (text) => text ?? "");
+}
+
+function countTextChars(text: string): number {
+  return text.replace(/\s+/g, "").length;
 }
 
 export async function extractTextFromPdfWithOcr(
   buffer: Buffer,
   apiKey: string,
-  onLog?: (msg: string) => void,
+  options: ExtractTextOptions = {},
 ): Promise<string> {
-  let extractedText = "";
+  const log = options.onLog ?? ((msg: string) => console.log(msg));
+
+  const pdfDocument = await pdf(buffer, { scale: 2.0 });
+  const pageCount = pdfDocument.length;
+  const { concurrency, maxPages, maxDocumentPages } = getOcrLimits();
+  if (pageCount > maxDocumentPages) {
+    throw new Error(
+      `PDF has ${pageCount} pages, more than the limit of ${maxDocumentPages} (SIB_PDF_MAX_PAGES)`,
+    );
+  }
+
+  let textPages: string[] = [];
   try {
-    extractedText = await extractTextFromPdf(buffer);
+    textPages = await extractPdfPages(buffer);
   } catch {}
+  const pageNumbers = Array.from({ length: pageCount }, (_, i) => i + 1);
 
-  if (extractedText.trim().length >= MIN_TEXT_LENGTH) {
-    return extractedText;
-  }
+  // Pages with little or no text layer are scans, handwriting or figures.
+  const ocrPages = pageNumbers.filter(
+    (pageNum) => countTextChars(textPages[pageNum - 1] ?? "") < MIN_PAGE_TEXT_LENGTH,
+  );
+  const textLayerPages = pageNumbers.filter((pageNum) => !ocrPages.includes(pageNum));
 
-  if (onLog) {
-    onLog("PDF appears to be image-based, using OCR...");
-  } else {
-    console.log("PDF appears to be image-based, using OCR...");
+  log(
+    `  ${pageCount} page(s): text layer ${textLayerPages.length > 0 ? formatPageList(textLayerPages) : "none"}; OCR ${ocrPages.length > 0 ? formatPageList(ocrPages) : "none"}`,
+  );
+
+  const pageTexts = new Map<number, string>();
+  for (const pageNum of textLayerPages) {
+    pageTexts.set(pageNum, textPages[pageNum - 1]);
   }
 
-  const pages: string[] = [];
-  let pageNum = 0;
+  if (ocrPages.length > 0) {
+    if (ocrPages.length > maxPages) {
+      throw new Error(
+        `PDF needs OCR for ${ocrPages.length} pages, more than the limit of ${maxPages} (SIB_OCR_MAX_PAGES)`,
+      );
+    }
 
-  const pdfDocument = await pdf(buffer, { scale: 2.0 });
-  for await (const image of pdfDocument) {
-    pageNum++;
-    const base64Image = image.toString("base64");
-
-    const pageText = await callAnthropic(
-      [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "Extract ALL text from this image exactly as it appears. Preserve the original formatting, layout, and structure as much as possible. Include all questions, answers, headers, footers, and any other text. Output ONLY the extracted text, nothing else.",
-            },
-            {
-              type: "image",
-              source: {
-                type: "base64",
-                media_type: "image/png",
-                data: base64Image,
-              },
-            },
-          ],
-        },
-      ],
+    log(`Running OCR, ${concurrency} page(s) at a time...`);
+    const ocrTexts = await ocrPdfPages(
+      pdfDocument,
+      ocrPages,
+      pageCount,
+      concurrency,
       apiKey,
-      undefined,
-      { maxTokens: 4096 },
+      options,
+    );
+    for (const [pageNum, text] of ocrTexts) {
+      pageTexts.set(pageNum, text);
+    }
+  }
+
+  return joinPages(
+    pageNumbers.map((pageNum) => ({ page: pageNum, text: pageTexts.get(pageNum) ?? "" })),
+  );
+}
+
+async function ocrPdfPages(
+  pdfDocument: { getPage(pageNumber: number): Promise<Buffer> },
+  pageNumbers: number[],
+  pageCount: number,
+  concurrency: number,
+  apiKey: string,
+  options: ExtractTextOptions,
+): Promise<Map<number, string>> {
+  const log = options.onLog ?? ((msg: string) => console.log(msg));
+  const pageTexts = new Map<number, string>();
+  const pageErrors = new Map<number, string>();
+  let pending = pageNumbers;
+
+  for (let round = 1; round <= OCR_PAGE_ROUNDS && pending.length > 0; round++) {
+    if (round > 1) {
+      log(`  retrying ${pending.length} failed page(s): ${pending.join(", ")}`);
+    }
+
+    await mapWithConcurrency(
+      pending,
+      concurrency,
+      async (pageNum) => {
+        try {
+          const image = await pdfDocument.getPage(pageNum);
+          const pageText = await ocrPageImage(image, apiKey, options);
+          pageTexts.set(pageNum, pageText);
+          pageErrors.delete(pageNum);
+          log(
+            `  page ${pageNum}/${pageCount} (${pageText.length.toLocaleString()} chars)`,
+          );
+        } catch (error) {
+          // Cancellation must stop the whole document, not just this page, and so
+          // must errors every page would hit, such as a rejected API key.
+          if (options.signal?.aborted) throw error;
+          if (error instanceof LlmApiError && !isRetryableLlmError(error)) throw error;
+          const reason = error instanceof Error ? error.message : String(error);
+          pageErrors.set(pageNum, reason);
+          log(`  page ${pageNum}/${pageCount} failed: ${reason}`);
+        }
+      },
+      options.signal,
     );
-    pages.push(`--- Page ${pageNum} ---\n${pageText}`);
+
+    pending = pageNumbers.filter((pageNum) => pageErrors.has(pageNum));
   }
 
-  return pages.join("\n\n");
+  if (pageErrors.size > pageNumbers.length * MAX_OCR_FAILED_SHARE) {
+    const [firstReason] = pageErrors.values();
+    throw new Error(
+      `OCR failed for ${pageErrors.size} of ${pageNumbers.length} page(s): ${firstReason}`,
+    );
+  }
+  if (pageErrors.size > 0) {
+    log(
+      `  OCR failed for ${pageErrors.size} page(s) after ${OCR_PAGE_ROUNDS} attempts; continuing without them`,
+    );
+  }
+  for (const [pageNum, reason] of pageErrors) {
+    pageTexts.set(pageNum, `[OCR failed for this page: ${reason}]`);
+  }
+
+  return pageTexts;
+}
+
+async function ocrPageImage(
+  image: Buffer,
+  apiKey: string,
+  options: ExtractTextOptions,
+): Promise<string> {
+  return callLlm(
+    [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: "Extract ALL text from this image exactly as it appears. Preserve the original formatting, layout, and structure as much as possible. Include all questions, answers, headers, footers, and any other text. Output ONLY the extracted text, nothing else.",
+          },
+          {
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: "image/png",
+              data: image.toString("base64"),
+            },
+          },
+        ],
+      },
+    ],
+    apiKey,
+    "ocr",
+    { ...options, maxTokens: 4096 },
+  );
+}
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = [
+  ".pdf",
+  ".txt",
+  ".md",
+  ".docx",
+  ".tex",
+  ".html",
+  ".htm",
+];
+
+export function isSupportedDocument(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return SUPPORTED_DOCUMENT_EXTENSIONS.some((extension) =>
+    lower.endsWith(extension),
+  );
 }
 
 export async function extractTextFromFile(
   file: File,
   apiKey?: string,
-  onLog?: (msg: string) => void,
+  options: ExtractTextOptions = {},
 ): Promise<string> {
   const buffer = Buffer.from(await file.arrayBuffer());
+  const name = file.name.toLowerCase();
 
-  if (file.name.endsWith(".pdf")) {
+  if (name.endsWith(".pdf")) {
     if (apiKey) {
-      return extractTextFromPdfWithOcr(buffer, apiKey, onLog);
+      return extractTextFromPdfWithOcr(buffer, apiKey, options);
     }
     return extractTextFromPdf(buffer);
-  } else if (file.name.endsWith(".txt") || file.name.endsWith(".md")) {
+  } else if (name.endsWith(".txt") || name.endsWith(".md")) {
     return buffer.toString("utf-8");
+  } else if (name.endsWith(".docx")) {
+    return extractTextFromDocx(buffer);
+  } else if (name.endsWith(".tex")) {
+    return extractTextFromLatex(buffer.toString("utf-8"));
+  } else if (name.endsWith(".html") || name.endsWith(".htm")) {
+    return extractTextFromHtml(buffer.toString("utf-8"));
   } else {
     throw new Error(`Unsupported file type: ${file.name}`);
   }
@@ -0,0 +1,138 @@
+import type { ExamDocument } from "./exam-md";
+
+export interface SourcePage {
+  page: number;
+  text: string;
+}
+
+export interface QuestionSource {
+  problemId: string;
+  examPages: number[];
+  solutionPages: number[];
+}
+
+// Word trigrams shared with a page, as a fraction of the question's trigrams.
+const MIN_PAGE_SCORE = 0.15;
+// Pages scoring this fraction of the best page also count (questions that span pages).
+const RELATIVE_PAGE_SCORE = 0.3;
+
+export function formatPageMarker(page: number): string {
+  return `--- Page ${page} ---`;
+}
+
+export function joinPages(pages: SourcePage[]): string {
+  return pages
+    .map(({ page, text }) => `${formatPageMarker(page)}\n${text}`)
+    .join("\n\n");
+}
+
+/** Splits text produced by `joinPages`. Text without page markers yields no pages. */
+export function splitPages(text: string): SourcePage[] {
+  const pages: SourcePage[] = [];
+  const markers = [...text.matchAll(/^--- Page (\d+) ---$/gm)];
+  for (let i = 0; i < markers.length; i++) {
+    const start = (markers[i].index ?? 0) + markers[i][0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index : text.length;
+    pages.push({ page: Number(markers[i][1]), text: text.slice(start, end) });
+  }
+  return pages;
+}
+
+export function formatPageList(pageNumbers: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < pageNumbers.length; i++) {
+    const start = pageNumbers[i];
+    while (i + 1 < pageNumbers.length && pageNumbers[i + 1] === pageNumbers[i] + 1) {
+      i++;
+    }
+    ranges.push(start === pageNumbers[i] ? `${start}` : `${start}-${pageNumbers[i]}`);
+  }
+  return ranges.join(", ");
+}
+
+/** Lowercased words of `text`, ignoring punctuation and line breaks. */
+export function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+/** Trigrams of consecutive entries in `list`, in order and with repeats. */
+export function wordTrigrams(list: string[]): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i + 2 < list.length; i++) {
+    grams.push(`${list[i]} ${list[i + 1]} ${list[i + 2]}`);
+  }
+  return grams;
+}
+
+/** Lowercased word trigrams of `text`, ignoring punctuation and line breaks. */
+export function trigrams(text: string): Set<string> {
+  return new Set(wordTrigrams(words(text)));
+}
+
+function matchPages(text: string, pages: Array<{ page: number; grams: Set<string> }>): number[] {
+  const grams = trigrams(text);
+  if (grams.size === 0) return [];
+
+  const scores = pages.map(({ page, grams: pageGrams }) => {
+    let shared = 0;
+    for (const gram of grams) {
+      if (pageGrams.has(gram)) shared++;
+    }
+    return { page, score: shared / grams.size };
+  });
+  const best = Math.max(0, ...scores.map(({ score }) => score));
+  if (best < MIN_PAGE_SCORE) return [];
+
+  return scores
+    .filter(({ score }) => score >= MIN_PAGE_SCORE && score >= best * RELATIVE_PAGE_SCORE)
+    .map(({ page }) => page)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Finds which exam and solutions pages each question of `exam` came from by
+ * comparing word trigrams against the page-marked extracted text. Sources
+ * without page markers (plain text, DOCX, ...) leave the page lists empty.
+ */
+export function locateQuestionSources(
+  exam: ExamDocument,
+  examText: string,
+  solutionsText: string,
+): QuestionSource[] {
+  const toGrams = (text: string) =>
+    splitPages(text).map(({ page, text: pageText }) => ({
+      page,
+      grams: trigrams(pageText),
+    }));
+  const examPages = toGrams(examText);
+  const solutionPages = toGrams(solutionsText);
+
+  return exam.questions.map(({ problemId, body, data }) => ({
+    problemId,
+    examPages: matchPages(body, examPages),
+    // Solutions usually restate the question next to the answer.
+    solutionPages: matchPages(
+      typeof data.answer === "string" ? `${body}\n${data.answer}` : body,
+      solutionPages,
+    ),
+  }));
+}
+
+export function formatSourcePages(
+  sources: QuestionSource[],
+  examFileName: string,
+  solutionsFileName: string,
+): string {
+  const pages = (list: number[]) => (list.length > 0 ? `p. ${formatPageList(list)}` : "–");
+  const rows = sources.map(
+    (source) =>
+      `| ${source.problemId} | ${pages(source.examPages)} | ${pages(source.solutionPages)} |`,
+  );
+  return [
+    "## Source pages",
+    "",
+    `| Question | Exam (\`${examFileName}\`) | Solutions (\`${solutionsFileName}\`) |`,
+    "| --- | --- | --- |",
+    ...rows,
+  ].join("\n");
+}
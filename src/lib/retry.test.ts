@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  computeBackoffMs,
+  parseRetryAfterMs,
+  withRetry,
+  type RetryAttempt,
+  type RetryPolicy,
+} from "./retry";
+
+const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 4, maxDelayMs: 10 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseRetryAfterMs", () => {
+  it("reads seconds", () => {
+    expect(parseRetryAfterMs("2")).toBe(2000);
+    expect(parseRetryAfterMs("0.5")).toBe(500);
+  });
+
+  it("reads an HTTP date relative to now", () => {
+    vi.spyOn(Date, "now").mockReturnValue(Date.parse("2026-01-01T00:00:00Z"));
+    expect(parseRetryAfterMs("Thu, 01 Jan 2026 00:00:30 GMT")).toBe(30_000);
+    expect(parseRetryAfterMs("Wed, 31 Dec 2025 23:59:00 GMT")).toBe(0);
+  });
+
+  it("ignores missing and malformed headers", () => {
+    expect(parseRetryAfterMs(null)).toBeUndefined();
+    expect(parseRetryAfterMs("")).toBeUndefined();
+    expect(parseRetryAfterMs("soon")).toBeUndefined();
+  });
+});
+
+describe("computeBackoffMs", () => {
+  it("doubles the ceiling per attempt up to maxDelayMs", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(computeBackoffMs(policy, 1)).toBe(4);
+    expect(computeBackoffMs(policy, 2)).toBe(8);
+    expect(computeBackoffMs(policy, 3)).toBe(10);
+    expect(computeBackoffMs(policy, 10)).toBe(10);
+  });
+
+  it("jitters between zero and the ceiling", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoffMs(policy, 3)).toBe(0);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable errors until the operation succeeds", async () => {
+    const retries: RetryAttempt[] = [];
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw new Error("overloaded");
+        return "ok";
+      },
+      { policy, isRetryable: () => true, onRetry: (info) => retries.push(info) },
+    );
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+    expect(retries.map((info) => info.attempt)).toEqual([1, 2]);
+  });
+
+  it("stops after maxRetries", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw new Error("overloaded");
+        },
+        { policy, isRetryable: () => true },
+      ),
+    ).rejects.toThrow("overloaded");
+    expect(calls).toBe(policy.maxRetries + 1);
+  });
+
+  it("does not retry errors that are not retryable", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw new Error("bad request");
+        },
+        { policy, isRetryable: () => false },
+      ),
+    ).rejects.toThrow("bad request");
+    expect(calls).toBe(1);
+  });
+
+  it("waits for Retry-After, capped at maxDelayMs", async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    await withRetry(
+      async () => {
+        calls++;
+        if (calls === 1) throw new Error("rate limited");
+        if (calls === 2) throw new Error("rate limited for an hour");
+        return "ok";
+      },
+      {
+        policy,
+        isRetryable: () => true,
+        retryAfterMs: (error) =>
+          (error as Error).message.endsWith("hour") ? 3_600_000 : 3,
+        onRetry: ({ delayMs }) => delays.push(delayMs),
+      },
+    );
+    expect(delays).toEqual([3, policy.maxDelayMs]);
+  });
+
+  it("stops waiting when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const slowPolicy = { ...policy, baseDelayMs: 60_000, maxDelayMs: 60_000 };
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const pending = withRetry(
+      async () => {
+        throw new Error("overloaded");
+      },
+      {
+        policy: slowPolicy,
+        isRetryable: () => true,
+        signal: controller.signal,
+        onRetry: () => controller.abort(new Error("cancelled")),
+      },
+    );
+    await expect(pending).rejects.toThrow("cancelled");
+  });
+});
@@ -0,0 +1,106 @@
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  baseDelayMs: 2_000,
+  maxDelayMs: 60_000,
+};
+
+export interface RetryAttempt {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export function resolveRetryPolicy(
+  overrides?: Partial<RetryPolicy> | false,
+): RetryPolicy {
+  if (overrides === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxRetries: 0 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+export function parseRetryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  if (Number.isFinite(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+export function computeBackoffMs(policy: RetryPolicy, attempt: number): number {
+  // Full jitter: spread retries from parallel jobs across the whole window.
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  params: {
+    policy: RetryPolicy;
+    isRetryable: (error: unknown) => boolean;
+    retryAfterMs?: (error: unknown) => number | undefined;
+    onRetry?: (info: RetryAttempt) => void;
+    signal?: AbortSignal;
+  },
+): Promise<T> {
+  const { policy, isRetryable, retryAfterMs, onRetry, signal } = params;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt > policy.maxRetries ||
+        !isRetryable(error)
+      ) {
+        throw error;
+      }
+
+      const retryAfter = retryAfterMs?.(error);
+      const delayMs =
+        retryAfter !== undefined
+          ? Math.min(retryAfter, policy.maxDelayMs)
+          : computeBackoffMs(policy, attempt);
+      onRetry?.({ attempt, maxRetries: policy.maxRetries, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
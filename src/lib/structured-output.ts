@@ -0,0 +1,90 @@
+import {
+  requestLlmCompletion,
+  type CallLlmOptions,
+  type LlmMessage,
+  type ModelStage,
+} from "./llm-client";
+import { validateJsonSchema, type JsonSchema } from "./json-schema";
+import type { LlmCompletion } from "./llm-provider";
+
+export interface StructuredOutputSpec {
+  toolName: string;
+  description: string;
+  schema: JsonSchema;
+  /** Total model calls, including the first one. */
+  maxAttempts?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** The model answered, but never with arguments that match the schema. */
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export async function callLlmStructured<T>(
+  messages: LlmMessage[],
+  apiKey: string,
+  stage: ModelStage,
+  spec: StructuredOutputSpec,
+  options?: Omit<CallLlmOptions, "tool">,
+): Promise<T> {
+  const log = options?.onLog ?? ((msg: string) => console.log(msg));
+  const maxAttempts = spec.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const conversation = [...messages];
+  let errors: string[] = [];
+  const validate = (completion: LlmCompletion) =>
+    completion.toolInput === undefined
+      ? [`The model did not call ${spec.toolName} with valid JSON arguments`]
+      : validateJsonSchema(spec.schema, completion.toolInput);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const completion = await requestLlmCompletion(
+      conversation,
+      apiKey,
+      stage,
+      {
+        ...options,
+        tool: {
+          name: spec.toolName,
+          description: spec.description,
+          inputSchema: spec.schema,
+        },
+        // Invalid outputs are not cached, so a re-run does not replay the same failures.
+        isCacheable: (candidate) => validate(candidate).length === 0,
+      },
+    );
+
+    errors = validate(completion);
+
+    if (errors.length === 0) {
+      return completion.toolInput as T;
+    }
+
+    log(
+      `  ${spec.toolName} output failed validation (attempt ${attempt}/${maxAttempts}): ${errors.slice(0, 3).join("; ")}`,
+    );
+
+    const previous =
+      completion.toolInput === undefined
+        ? completion.text
+        : JSON.stringify(completion.toolInput, null, 2);
+    conversation.push(
+      {
+        role: "assistant",
+        content: `${spec.toolName} arguments:\n${previous}`,
+      },
+      {
+        role: "user",
+        content: `Those arguments do not match the required schema:\n${errors.map((error) => `- ${error}`).join("\n")}\n\nCall ${spec.toolName} again with corrected arguments. Keep everything that was already valid.`,
+      },
+    );
+  }
+
+  throw new StructuredOutputError(
+    `${spec.toolName} output failed validation after ${maxAttempts} attempt(s): ${errors.join("; ")}`,
+  );
+}
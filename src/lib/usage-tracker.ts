@@ -0,0 +1,172 @@
+import type { LlmUsage } from "./llm-provider";
+
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+// USD per million tokens, matched by longest model-name prefix.
+// SIB_MODEL_PRICES (JSON, same shape) adds or overrides entries.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-opus-4-6": { input: 5, output: 25 },
+  "claude-opus-4-5": { input: 5, output: 25 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+};
+
+export interface StageUsage extends LlmUsage {
+  calls: number;
+  cachedCalls: number;
+  models: string[];
+  costUsd: number | null;
+}
+
+export interface UsageSummary extends LlmUsage {
+  calls: number;
+  cachedCalls: number;
+  costUsd: number | null;
+  stages: Record<string, StageUsage>;
+}
+
+export interface UsageTracker {
+  /** Cached responses count as calls but add no tokens or cost. */
+  record(
+    stage: string,
+    model: string,
+    usage: LlmUsage,
+    options?: { cached?: boolean },
+  ): void;
+  summary(): UsageSummary;
+}
+
+function getModelPrices(): Record<string, ModelPrice> {
+  const raw = process.env.SIB_MODEL_PRICES;
+  if (!raw) return DEFAULT_MODEL_PRICES;
+  try {
+    return {
+      ...DEFAULT_MODEL_PRICES,
+      ...(JSON.parse(raw) as Record<string, ModelPrice>),
+    };
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+export function estimateCostUsd(model: string, usage: LlmUsage): number | null {
+  const prices = getModelPrices();
+  const prefix = Object.keys(prices)
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return null;
+
+  const price = prices[prefix];
+  const cacheRead = price.cacheRead ?? price.input * 0.1;
+  const cacheWrite = price.cacheWrite ?? price.input * 1.25;
+  return (
+    (usage.inputTokens * price.input +
+      usage.outputTokens * price.output +
+      usage.cacheReadTokens * cacheRead +
+      usage.cacheWriteTokens * cacheWrite) /
+    1_000_000
+  );
+}
+
+export function createUsageTracker(): UsageTracker {
+  const stages = new Map<string, StageUsage>();
+
+  return {
+    record(stage, model, usage, options) {
+      const entry = stages.get(stage) ?? {
+        calls: 0,
+        cachedCalls: 0,
+        models: [],
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0,
+      };
+
+      entry.calls += 1;
+      if (!entry.models.includes(model)) {
+        entry.models.push(model);
+      }
+      if (options?.cached) {
+        entry.cachedCalls += 1;
+        stages.set(stage, entry);
+        return;
+      }
+
+      entry.inputTokens += usage.inputTokens;
+      entry.outputTokens += usage.outputTokens;
+      entry.cacheReadTokens += usage.cacheReadTokens;
+      entry.cacheWriteTokens += usage.cacheWriteTokens;
+
+      // Once any call in a stage has an unknown price, the stage total is unknown too.
+      const cost = estimateCostUsd(model, usage);
+      entry.costUsd =
+        cost === null || entry.costUsd === null ? null : entry.costUsd + cost;
+
+      stages.set(stage, entry);
+    },
+
+    summary() {
+      const summary: UsageSummary = {
+        calls: 0,
+        cachedCalls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0,
+        stages: {},
+      };
+
+      for (const [stage, entry] of stages) {
+        summary.stages[stage] = { ...entry, models: [...entry.models] };
+        summary.calls += entry.calls;
+        summary.cachedCalls += entry.cachedCalls;
+        summary.inputTokens += entry.inputTokens;
+        summary.outputTokens += entry.outputTokens;
+        summary.cacheReadTokens += entry.cacheReadTokens;
+        summary.cacheWriteTokens += entry.cacheWriteTokens;
+        summary.costUsd =
+          entry.costUsd === null || summary.costUsd === null
+            ? null
+            : summary.costUsd + entry.costUsd;
+      }
+
+      return summary;
+    },
+  };
+}
+
+function formatCost(costUsd: number | null): string {
+  return costUsd === null ? "cost unknown" : `$${costUsd.toFixed(4)}`;
+}
+
+function formatCalls(calls: number, cachedCalls: number): string {
+  return cachedCalls > 0
+    ? `${calls} call(s), ${cachedCalls} cached`
+    : `${calls} call(s)`;
+}
+
+export function formatUsageSummary(summary: UsageSummary): string[] {
+  const lines = [
+    `Usage: ${formatCalls(summary.calls, summary.cachedCalls)}, ${summary.inputTokens.toLocaleString()} in / ${summary.outputTokens.toLocaleString()} out tokens, ${formatCost(summary.costUsd)}`,
+  ];
+
+  for (const [stage, entry] of Object.entries(summary.stages)) {
+    lines.push(
+      `  ${stage}: ${formatCalls(entry.calls, entry.cachedCalls)}, ${entry.inputTokens.toLocaleString()} in / ${entry.outputTokens.toLocaleString()} out, ${formatCost(entry.costUsd)} (${entry.models.join(", ")})`,
+    );
+  }
+
+  return lines;
+}
@@ -0,0 +1,66 @@
+import type { APIRoute } from "astro";
+import { expandZipArchive } from "../../../lib/archive";
+import { checkRateLimit } from "../../../lib/rate-limit";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".tex": "application/x-tex",
+  ".html": "text/html",
+  ".htm": "text/html",
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const clientIp = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+  const { allowed, retryAfter } = checkRateLimit(clientIp, 60_000, 10);
+  if (!allowed) {
+    return new Response(JSON.stringify({ error: "Too many requests" }), {
+      status: 429,
+      headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+    });
+  }
+
+  try {
+    const formData = await request.formData();
+    const archive = formData.get("archive");
+
+    if (!(archive instanceof File) || !archive.name.toLowerCase().endsWith(".zip")) {
+      return new Response(JSON.stringify({ error: "A .zip archive is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    let expanded;
+    try {
+      expanded = expandZipArchive(Buffer.from(await archive.arrayBuffer()));
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const files = expanded.files.map((file) => {
+      const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+      return {
+        name: file.name,
+        type: CONTENT_TYPES[extension] ?? "application/octet-stream",
+        data: file.data.toString("base64"),
+      };
+    });
+
+    return new Response(JSON.stringify({ files, skipped: expanded.skipped }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: String(error) }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,11 +1,50 @@
 import type { APIRoute } from "astro";
 import { extractTextFromFile } from "../../../lib/pdf-utils";
-import { callAnthropic, MODELS } from "../../../lib/anthropic-client";
+import {
+  callLlm,
+  getLlmApiKey,
+  getLlmApiKeyEnv,
+  type LlmJobOptions,
+} from "../../../lib/llm-client";
+import type { RetryPolicy } from "../../../lib/retry";
 import { checkRateLimit } from "../../../lib/rate-limit";
-import { runDockerJob } from "../../../lib/docker-runner";
-import fs from "fs/promises";
-import path from "path";
-import os from "os";
+import { isHttpReplay } from "../../../lib/http-fixtures";
+import {
+  extractFiguresFromFile,
+  formatFigureList,
+  isFigureExtractionEnabled,
+  type ExtractedFigure,
+} from "../../../lib/pdf-figures";
+import { normalizeExamMetadataAndTags } from "../../../lib/exam-checks";
+import { getMetadataString } from "../../../lib/exam-md";
+import { repairExamMd } from "../../../lib/exam-repair";
+import {
+  findMissingLabels,
+  getChunkConcurrency,
+  mergeExamChunks,
+  segmentExam,
+  shouldChunkExam,
+} from "../../../lib/exam-chunking";
+import { mapWithConcurrency } from "../../../lib/concurrency";
+import {
+  formatExamIssues,
+  validateExamDocument,
+} from "../../../lib/exam-schema";
+import { saveExamDraft } from "../../../lib/exam-drafts";
+import { formatGroundingLog, groundExamAnswers } from "../../../lib/exam-grounding";
+import {
+  findExactMatchWarnings,
+  validateExactMatchChoices,
+} from "../../../lib/exam-exact-match";
+import { findAnswerLeaks, getLeakCheckMode } from "../../../lib/exam-leakage";
+import { findRubricWarnings, validateRubricPoints } from "../../../lib/exam-rubric";
+import { fixDanglingReferences } from "../../../lib/exam-self-containment";
+import { publishExam } from "../../../lib/exam-publish";
+import { formatJobResult } from "../../../lib/job-result";
+import {
+  createUsageTracker,
+  formatUsageSummary,
+} from "../../../lib/usage-tracker";
 
 const JUDGE_SYSTEM_PROMPT = `You are a meticulous judge that validates and corrects exam markdown files for the CourseExam benchmark.
 
@@ -33,6 +72,7 @@ CRITICAL CONTENT CHECKS - FIX THESE:
 16. REMOVE any skipped/excluded questions entirely (e.g., "Skipped", "Excluded", or points=0). Do NOT include them in the output.
 17. UPDATE score_total and num_questions after removing any skipped/excluded questions.
 18. ENSURE all "points" values are integers. If any are fractional, rescale all question points and score_total by the smallest factor to make them integers (e.g., 0.5 -> multiply all points by 2). Update any point allocations in llm_judge_instructions to use integers.
+19. KEEP markdown figure references such as ![Figure 1: page table](figure_p3_1.png) exactly as written. They point to image files stored next to exam.md.
 
 EXAMPLE OF BAD (fix this):
 ## Question 1 [5 points]
@@ -62,403 +102,17 @@ FORMAT REQUIREMENTS:
    \`\`\`
 3. Each question must have exactly one JSON block, and the block must be closed.
 4. Question separators must be exactly a line containing only: ---
-5. Preserve all content; only fix formatting issues (missing/extra backticks, stray whitespace around separators, etc.).
+5. Preserve all content, including markdown image references like ![...](figure_p3_1.png); only fix formatting issues (missing/extra backticks, stray whitespace around separators, etc.).
 
 If the input is already correctly formatted, output it unchanged.
 Output ONLY the corrected exam.md content, no explanations or commentary.`;
 
-const PR_BODY_SYSTEM_PROMPT = `You write GitHub pull request descriptions.
-
-Fill out the template exactly. Keep the section headings and checklist intact.
-Use concise, factual sentences. Do not add extra sections or commentary.
-Output ONLY the completed template.`;
-
-const PR_TITLE_SYSTEM_PROMPT = `You generate GitHub pull request titles.
-
-Output EXACTLY this format:
-add <course> <season> <year> <exam type>
-
-Rules:
-- Use lowercase.
-- Course should be a short code (e.g., comp3000, cs537).
-- Season must be one of: fall, winter, spring, summer.
-- Year must be 4 digits.
-- Exam type must be "final", "midterm", "quiz", or "exam".
-- Output ONLY the title line, no punctuation or quotes.`;
-
-function buildPullRequestTitleFallback(examId: string): string {
-  const tokens = examId.toLowerCase().split("_");
-  const seasons = new Set(["fall", "winter", "spring", "summer", "autumn"]);
-  const seasonIndex = tokens.findIndex((token) => seasons.has(token));
-
-  if (seasonIndex > 0 && seasonIndex + 2 < tokens.length) {
-    const course = tokens.slice(0, seasonIndex).join(" ");
-    const season = tokens[seasonIndex];
-    const year = tokens[seasonIndex + 1];
-    const examType = tokens.slice(seasonIndex + 2).join(" ");
-
-    if (/^\d{4}$/.test(year) && examType) {
-      return `add ${course} ${season} ${year} ${examType}`.replace(/\s+/g, " ");
-    }
-  }
-
-  return `add ${examId.replace(/_/g, " ")}`.replace(/\s+/g, " ");
-}
-
-function assertIntegerPoints(examMd: string): void {
-  const jsonBlockRegex = /```json\n([\s\S]*?)\n```/g;
-  const matches = examMd.matchAll(jsonBlockRegex);
-
-  for (const match of matches) {
-    const jsonText = match[1];
-    let parsed: Record<string, unknown>;
-    try {
-      parsed = JSON.parse(jsonText) as Record<string, unknown>;
-    } catch {
-      continue;
-    }
-
-    if (!Object.prototype.hasOwnProperty.call(parsed, "problem_id")) {
-      continue;
-    }
-
-    const points = parsed.points;
-    if (typeof points === "number" && !Number.isInteger(points)) {
-      const problemId = parsed.problem_id;
-      throw new Error(
-        `Non-integer points for problem_id ${problemId}: ${points}`,
-      );
-    }
-  }
-}
-
-function assertNonEmptyAnswers(examMd: string): void {
-  const jsonBlockRegex = /```json\n([\s\S]*?)\n```/g;
-  const matches = examMd.matchAll(jsonBlockRegex);
-  const missingAnswers: string[] = [];
-
-  for (const match of matches) {
-    const jsonText = match[1];
-    let parsed: Record<string, unknown>;
-    try {
-      parsed = JSON.parse(jsonText) as Record<string, unknown>;
-    } catch {
-      continue;
-    }
-
-    if (!Object.prototype.hasOwnProperty.call(parsed, "problem_id")) {
-      continue;
-    }
-
-    const answer = parsed.answer;
-    if (typeof answer !== "string" || answer.trim().length === 0) {
-      missingAnswers.push(String(parsed.problem_id ?? "?"));
-    }
-  }
-
-  if (missingAnswers.length > 0) {
-    throw new Error(
-      `Missing or empty answers for problem_id(s): ${missingAnswers.join(", ")}`,
-    );
-  }
-}
-
-function normalizeTags(rawTags: unknown): string[] {
-  if (!Array.isArray(rawTags)) {
-    return ["misc"];
-  }
-
-  const normalized: string[] = [];
-  const seen = new Set<string>();
-
-  for (const tag of rawTags) {
-    if (typeof tag !== "string") {
-      continue;
-    }
-
-    let cleaned = tag.toLowerCase();
-    cleaned = cleaned.replace(/[\s_\/]+/g, "-");
-    cleaned = cleaned.replace(/[^a-z0-9-]/g, "");
-    cleaned = cleaned.replace(/-+/g, "-");
-    cleaned = cleaned.replace(/^-+|-+$/g, "");
-
-    if (!cleaned) {
-      continue;
-    }
-
-    if (!seen.has(cleaned)) {
-      seen.add(cleaned);
-      normalized.push(cleaned);
-    }
-  }
-
-  return normalized.length > 0 ? normalized : ["misc"];
-}
-
-function normalizeExamMetadataAndTags(examMd: string): string {
-  const jsonBlockRegex = /```json\n([\s\S]*?)\n```/g;
-  const matches = [...examMd.matchAll(jsonBlockRegex)];
-
-  if (matches.length === 0) {
-    return examMd;
-  }
-
-  let questionCount = 0;
-  let totalPoints = 0;
-  const updates: Array<{ start: number; end: number; text: string }> = [];
-
-  let metadata: Record<string, unknown> | null = null;
-  let metadataMatch: RegExpMatchArray | null = null;
-
-  for (let index = 0; index < matches.length; index++) {
-    const match = matches[index];
-    const jsonText = match[1];
-    let parsed: Record<string, unknown>;
-
-    try {
-      parsed = JSON.parse(jsonText) as Record<string, unknown>;
-    } catch {
-      continue;
-    }
-
-    const hasProblemId = Object.prototype.hasOwnProperty.call(
-      parsed,
-      "problem_id",
-    );
-
-    if (index === 0 && !hasProblemId) {
-      metadata = parsed;
-      metadataMatch = match;
-      continue;
-    }
-
-    if (!hasProblemId) {
-      continue;
-    }
-
-    questionCount += 1;
-    if (typeof parsed.points === "number" && Number.isFinite(parsed.points)) {
-      totalPoints += parsed.points;
-    }
-
-    const normalizedTags = normalizeTags(parsed.tags);
-    const tagsChanged =
-      JSON.stringify(normalizedTags) !== JSON.stringify(parsed.tags);
-
-    if (tagsChanged) {
-      parsed.tags = normalizedTags;
-      const newBlock = `\`\`\`json\n${JSON.stringify(parsed, null, 2)}\n\`\`\``;
-      const start = match.index ?? 0;
-      updates.push({ start, end: start + match[0].length, text: newBlock });
-    }
-  }
-
-  if (metadata && metadataMatch && questionCount > 0) {
-    let metadataChanged = false;
-    const numQuestions = metadata.num_questions;
-    if (numQuestions !== questionCount) {
-      metadata.num_questions = questionCount;
-      metadataChanged = true;
-    }
-
-    const scoreTotalRaw = metadata.score_total;
-    const scoreTotal =
-      typeof scoreTotalRaw === "number" ? scoreTotalRaw : Number(scoreTotalRaw);
-    if (!Number.isFinite(scoreTotal) || scoreTotal !== totalPoints) {
-      metadata.score_total = totalPoints;
-      metadataChanged = true;
-    }
-
-    if (metadataChanged) {
-      const newBlock = `\`\`\`json\n${JSON.stringify(metadata, null, 2)}\n\`\`\``;
-      const start = metadataMatch.index ?? 0;
-      updates.push({
-        start,
-        end: start + metadataMatch[0].length,
-        text: newBlock,
-      });
-    }
-  }
-
-  if (updates.length === 0) {
-    return examMd;
-  }
-
-  const sortedUpdates = updates.sort((a, b) => b.start - a.start);
-  let updatedExamMd = examMd;
-
-  for (const update of sortedUpdates) {
-    updatedExamMd =
-      updatedExamMd.slice(0, update.start) +
-      update.text +
-      updatedExamMd.slice(update.end);
-  }
-
-  return updatedExamMd;
-}
-
-async function createOrGetPullRequest(params: {
-  githubUsername: string;
-  githubToken: string;
-  branchName: string;
-  title: string;
-  body: string;
-}): Promise<string> {
-  const { githubUsername, githubToken, branchName, title, body } = params;
-  const owner = "sys-intelligence";
-  const repo = "system-intelligence-benchmark";
-  const base = "main";
-  const head = `${githubUsername}:${branchName}`;
-  const apiBase = `https://api.github.com/repos/${owner}/${repo}`;
-
-  const headers = {
-    Accept: "application/vnd.github+json",
-    Authorization: `Bearer ${githubToken}`,
-    "X-GitHub-Api-Version": "2022-11-28",
-  };
-
-  const listResponse = await fetch(
-    `${apiBase}/pulls?state=open&base=${base}&head=${encodeURIComponent(head)}`,
-    { headers },
-  );
-  if (!listResponse.ok) {
-    const errorText = await listResponse.text();
-    throw new Error(
-      `GitHub PR lookup failed: ${listResponse.status} - ${errorText}`,
-    );
-  }
-
-  const existing = (await listResponse.json()) as Array<{ html_url?: string }>;
-  if (existing.length > 0 && existing[0]?.html_url) {
-    return existing[0].html_url;
-  }
-
-  const createResponse = await fetch(`${apiBase}/pulls`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
-      title,
-      head,
-      base,
-      body,
-      draft: true,
-      maintainer_can_modify: true,
-    }),
-  });
-
-  if (!createResponse.ok) {
-    const errorText = await createResponse.text();
-    throw new Error(
-      `GitHub PR create failed: ${createResponse.status} - ${errorText}`,
-    );
-  }
-
-  const created = (await createResponse.json()) as { html_url?: string };
-  if (!created?.html_url) {
-    throw new Error("GitHub PR create response missing html_url");
-  }
-
-  return created.html_url;
-}
-
-async function buildPullRequestTitle(params: {
-  apiKey: string;
-  examId: string;
-  examTitle: string;
-  course?: string;
-  year?: string;
-}): Promise<string> {
-  const { apiKey, examId, examTitle, course, year } = params;
-  const userPrompt = `Context:
-- exam_id: ${examId}
-- test_paper_name: ${examTitle}
-- course: ${course || "unknown"}
-- year: ${year || "unknown"}
-
-Generate the title.`;
-
-  const title = await callAnthropic(
-    [
-      { role: "system", content: PR_TITLE_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    apiKey,
-    MODELS.judge,
-  );
-
-  const cleaned = title.trim().split("\n")[0].toLowerCase();
-  const isValid = /^add [a-z0-9]+ [a-z]+ \d{4} (final|midterm|quiz|exam)$/.test(
-    cleaned,
-  );
-  if (!isValid) {
-    return buildPullRequestTitleFallback(examId);
-  }
-
-  return cleaned;
-}
-
-async function buildPullRequestBody(params: {
-  apiKey: string;
-  examTitle: string;
-  examId: string;
-  examDir: string;
-  solutionFileName: string;
-  referenceFileNames: string[];
-}): Promise<string> {
-  const {
-    apiKey,
-    examTitle,
-    examId,
-    examDir,
-    solutionFileName,
-    referenceFileNames,
-  } = params;
-
-  const template = `## Description
-
-Brief description of what this PR does.
-
-## Changes
-
-- Change 1
-- Change 2
-- Change 3
-
-## Testing
-
-How was this tested?
-
-## Checklist
-
-- [ ] Tests pass locally
-- [ ] Code follows project style guidelines
-- [ ] Documentation updated (if needed)
-`;
-
-  const refList =
-    referenceFileNames.length > 0 ? referenceFileNames.join(", ") : "None";
-
-  const userPrompt = `Fill the template using this context:
-- Exam title: ${examTitle}
-- Exam ID: ${examId}
-- Exam directory: ${examDir}
-- Solutions file: ${solutionFileName}
-- Reference files: ${refList}
-- Testing performed: python3 courseexam/prepare.py
-
-Template:
-${template}
-`;
-
-  return callAnthropic(
-    [
-      { role: "system", content: PR_BODY_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    apiKey,
-    MODELS.judge,
-  );
-}
+// Generation, judge and format calls are the expensive ones; wait out longer
+// overload windows rather than failing the whole job.
+const LONG_CALL_RETRY: Partial<RetryPolicy> = {
+  maxRetries: 6,
+  maxDelayMs: 120_000,
+};
 
 const EXAM_SYSTEM_PROMPT = `You are an expert at converting exam documents into a structured markdown format for the CourseExam benchmark.
 
@@ -477,6 +131,8 @@ CRITICAL RULES - READ CAREFULLY:
 5. Tags MUST match ^[a-z0-9-]+$ (lowercase, digits, hyphens only). Replace spaces, underscores, or slashes with hyphens and remove other punctuation.
 6. num_questions MUST equal the number of questions you output (count each sub-part like 8a, 8b as 1). Recount after writing questions and update metadata.
 7. Every question MUST have a non-empty "answer" in its JSON block. Use the solutions text to fill it; never leave it blank.
+8. Code in \`\`\` fences and markdown tables in the exam text were rebuilt from the PDF layout. Copy them into the question text verbatim, keeping every line, its indentation and every table row.
+9. Lines like "--- Page 3 ---" mark page boundaries in the extracted PDF text. Never copy them into the output, and join questions that continue across a page boundary.
 
 METADATA INFERENCE (for fields not provided):
 - exam_id: Generate from course code, semester, year, and exam type. Use lowercase with underscores.
@@ -549,6 +205,7 @@ D) Option 4
 QUESTION TYPE RULES:
 - ExactMatch: Multiple choice or True/False. Include "choices" array (the TEXT of each option, not letters) and "answer" (letter A-E corresponding to index).
   Example: "choices": ["Running", "Ready", "Blocked"], "answer": "C" means Blocked is correct
+  True/False: "choices": ["True", "False"], "answer": "A" for True or "B" for False
 - Freeform: Open-ended questions. Include "answer" (the correct answer text) and "llm_judge_instructions" (grading rubric). NO "choices" field.
 - Multi-select questions (choose all that apply): Use Freeform type with answer like "A, B, D" and llm_judge_instructions for partial credit.
 
@@ -575,6 +232,128 @@ MULTI-PART QUESTIONS:
 
 Output ONLY the exam.md content.`;
 
+function chunkFragmentNote(labels: string): string {
+  return `This is a fragment of a longer exam.md that covers only question ${labels}. It has no # title and no metadata JSON block; do not add them, since score_total and num_questions are recomputed after all fragments are merged. Keep the question numbers and problem_ids as they are: they start at ${labels}, not at 1.`;
+}
+
+async function generateChunkedExamMd(params: {
+  apiKey: string;
+  promptContext: string;
+  examText: string;
+  solutionsText: string;
+  figuresSection: string;
+  llm: LlmJobOptions;
+}): Promise<string> {
+  const { apiKey, promptContext, examText, solutionsText, figuresSection, llm } =
+    params;
+  const log = llm.onLog ?? ((msg: string) => console.log(msg));
+
+  log(`  segmenting questions`);
+  const { preamble, chunks } = await segmentExam(
+    examText,
+    solutionsText,
+    apiKey,
+    llm,
+  );
+  const allLabels = chunks.flatMap((chunk) => chunk.labels);
+  log(
+    `  ${chunks.length} chunk(s): ${chunks.map((chunk) => chunk.labels.join("+")).join(", ")}`,
+  );
+
+  const header = await callLlm(
+    [
+      { role: "system", content: EXAM_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `${promptContext}
+
+=== EXAM HEADER ===
+${preamble || "(none)"}
+
+The exam has these top-level questions: ${allLabels.join(", ")}.
+
+Output ONLY the # title line and the exam metadata JSON block. Set score_total and num_questions to 0; they are recomputed from the questions.`,
+      },
+    ],
+    apiKey,
+    "generator",
+    { ...llm, retry: LONG_CALL_RETRY },
+  );
+
+  let completed = 0;
+  const pieces = await mapWithConcurrency(
+    chunks,
+    getChunkConcurrency(),
+    async (chunk) => {
+      const labels = chunk.labels.join(", ");
+      const note = chunkFragmentNote(labels);
+
+      const generated = await callLlm(
+        [
+          { role: "system", content: EXAM_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `${promptContext}
+
+=== EXAM CONTENT (question ${labels} only) ===
+${chunk.examText}
+${figuresSection}
+=== SOLUTIONS (matching part) ===
+${chunk.solutionsText}
+
+${note}
+
+Please generate the question blocks for question ${labels} following the exact format specified, starting with its "## Question" heading.`,
+          },
+        ],
+        apiKey,
+        "generator",
+        { ...llm, retry: LONG_CALL_RETRY },
+      );
+
+      const judged = await callLlm(
+        [
+          { role: "system", content: JUDGE_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `${note}\n\nPlease validate and correct the following exam.md content:\n\n${generated}`,
+          },
+        ],
+        apiKey,
+        "judge",
+        { ...llm, retry: LONG_CALL_RETRY },
+      );
+
+      const formatted = await callLlm(
+        [
+          { role: "system", content: FORMAT_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `${note}\n\nPlease verify and correct the formatting of the following exam.md content:\n\n${judged}`,
+          },
+        ],
+        apiKey,
+        "format",
+        { ...llm, retry: LONG_CALL_RETRY },
+      );
+
+      completed++;
+      log(
+        `  question ${labels}: ${formatted.length.toLocaleString()} chars (${completed}/${chunks.length})`,
+      );
+      return formatted;
+    },
+    llm.signal,
+  );
+
+  const merged = mergeExamChunks(header, pieces);
+  const missing = findMissingLabels(merged, allLabels);
+  if (missing.length > 0) {
+    log(`  warning: no questions generated for ${missing.map((label) => `Q${label}`).join(", ")}`);
+  }
+  return merged;
+}
+
 export const POST: APIRoute = async ({ request }) => {
   try {
     const clientIp = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
@@ -602,29 +381,33 @@ export const POST: APIRoute = async ({ request }) => {
     const examFile = formData.get("examFile") as File;
     const solutionsFile = formData.get("solutionsFile") as File;
     const referenceFiles = formData.getAll("referenceFiles") as File[];
-    const apiKey = process.env.ANTHROPIC_API_KEY;
+    const noCache = formData.get("noCache") === "true";
+    // Draft mode stops after validation; POST /api/exams/publish continues from there.
+    const draftMode = formData.get("draft") === "true";
+    const apiKey = getLlmApiKey();
     const githubUsername = formData.get("githubUsername") as string;
     const githubToken = formData.get("githubToken") as string;
     const dockerImage = process.env.SIB_WORKER_IMAGE;
     const repoUrl = process.env.SIB_REPO_URL;
+    const replay = isHttpReplay();
 
     if (!apiKey) {
       return new Response(
         JSON.stringify({
-          error: "Server misconfigured: ANTHROPIC_API_KEY is required",
+          error: `Server misconfigured: ${getLlmApiKeyEnv()} is required`,
         }),
         { status: 500, headers: { "Content-Type": "application/json" } },
       );
     }
 
-    if (!githubUsername || !githubToken) {
+    if (!draftMode && (!githubUsername || !githubToken)) {
       return new Response(
         JSON.stringify({ error: "GitHub username and token are required" }),
         { status: 400, headers: { "Content-Type": "application/json" } },
       );
     }
 
-    if (!dockerImage || !repoUrl) {
+    if (!draftMode && !replay && (!dockerImage || !repoUrl)) {
       return new Response(
         JSON.stringify({
           error: "Server misconfigured: SIB_WORKER_IMAGE and SIB_REPO_URL are required",
@@ -641,23 +424,41 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     const encoder = new TextEncoder();
+    const abortController = new AbortController();
+    const { signal } = abortController;
 
     const stream = new ReadableStream({
       async start(controller) {
         const startTime = Date.now();
+        const usage = createUsageTracker();
         const log = (msg: string) => {
+          if (signal.aborted) return;
           controller.enqueue(encoder.encode(msg + "\n"));
         };
+        const llm: LlmJobOptions = {
+          onLog: log,
+          usage,
+          cache: !noCache,
+          signal,
+        };
+        let finalExamId: string | undefined = examId || undefined;
 
         try {
         // Extract exam text
         log(`Reading ${examFile.name}...`);
-        const examText = await extractTextFromFile(examFile, apiKey, log);
+        const examText = await extractTextFromFile(examFile, apiKey, llm);
         log(`  ${examText.length.toLocaleString()} chars`);
 
+        let figures: ExtractedFigure[] = [];
+        if (isFigureExtractionEnabled() && examFile.name.toLowerCase().endsWith(".pdf")) {
+          log(`Detecting figures...`);
+          figures = await extractFiguresFromFile(examFile, apiKey, llm);
+          log(`  ${figures.length} figure(s)`);
+        }
+
         // Extract solutions text
         log(`Reading ${solutionsFile.name}...`);
-        const solutionsText = await extractTextFromFile(solutionsFile, apiKey, log);
+        const solutionsText = await extractTextFromFile(solutionsFile, apiKey, llm);
         log(`  ${solutionsText.length.toLocaleString()} chars`);
 
         // Generate exam.md
@@ -682,7 +483,16 @@ export const POST: APIRoute = async ({ request }) => {
             ? `The following metadata was explicitly provided as overrides (use these values):\n${overrides.join("\n")}\n\nFor any fields NOT listed above, infer them from the exam content.`
             : `No metadata overrides were provided. Infer ALL metadata fields from the exam content.`;
 
-        const userPrompt = `${overridesSection}
+        const figuresSection =
+          figures.length > 0
+            ? `
+=== FIGURES ===
+These figures were cut out of the exam PDF and will be stored next to exam.md. When a question needs one, reference it in the question text with a markdown image using the exact file name, e.g. ![Figure 1: page table layout](${figures[0].fileName}). Repeat the reference in every sub-question that needs the figure. Do not reference any other image files.
+${formatFigureList(figures)}
+`
+            : "";
+
+        const promptContext = `${overridesSection}
 
 IMPORTANT - Exam filename: "${examFile.name}"
 IMPORTANT - Solutions filename: "${solutionsFile.name}"
@@ -692,197 +502,232 @@ The filename often contains critical hints about the exam type (midterm vs final
 Use these filename hints to help determine the correct exam_id.
 
 Additional notes from the uploader:
-${notes || "None"}
+${notes || "None"}`;
+
+        let formattedExamMd: string;
+        if (shouldChunkExam(examText)) {
+          formattedExamMd = await generateChunkedExamMd({
+            apiKey,
+            promptContext,
+            examText,
+            solutionsText,
+            figuresSection,
+            llm,
+          });
+          log(`  ${formattedExamMd.length.toLocaleString()} chars`);
+        } else {
+          const userPrompt = `${promptContext}
 
 === EXAM CONTENT ===
 ${examText}
-
+${figuresSection}
 === SOLUTIONS ===
 ${solutionsText}
 
 Please generate the exam.md file following the exact format specified. Remember to infer any metadata not explicitly provided above.`;
 
-        const generatedExamMd = await callAnthropic(
-          [
-            { role: "system", content: EXAM_SYSTEM_PROMPT },
-            { role: "user", content: userPrompt },
-          ],
-          apiKey,
-          MODELS.generator,
-        );
-
-        log(`  ${generatedExamMd.length.toLocaleString()} chars`);
+          const generatedExamMd = await callLlm(
+            [
+              { role: "system", content: EXAM_SYSTEM_PROMPT },
+              { role: "user", content: userPrompt },
+            ],
+            apiKey,
+            "generator",
+            { ...llm, stream: true, retry: LONG_CALL_RETRY },
+          );
 
-        // Validate with judge
-        log(`Validating...`);
+          log(`  ${generatedExamMd.length.toLocaleString()} chars`);
 
-        const examMd = await callAnthropic(
-          [
-            { role: "system", content: JUDGE_SYSTEM_PROMPT },
-            {
-              role: "user",
-              content: `Please validate and correct the following exam.md content:\n\n${generatedExamMd}`,
-            },
-          ],
-          apiKey,
-          MODELS.judge,
-        );
+          // Validate with judge
+          log(`Validating...`);
 
-        log(`  ${examMd.length.toLocaleString()} chars`);
+          const examMd = await callLlm(
+            [
+              { role: "system", content: JUDGE_SYSTEM_PROMPT },
+              {
+                role: "user",
+                content: `Please validate and correct the following exam.md content:\n\n${generatedExamMd}`,
+              },
+            ],
+            apiKey,
+            "judge",
+            { ...llm, stream: true, retry: LONG_CALL_RETRY },
+          );
 
-        // Format verification
-        log(`Formatting...`);
+          log(`  ${examMd.length.toLocaleString()} chars`);
 
-        const formattedExamMd = await callAnthropic(
-          [
-            { role: "system", content: FORMAT_SYSTEM_PROMPT },
-            {
-              role: "user",
-              content: `Please verify and correct the formatting of the following exam.md content:\n\n${examMd}`,
-            },
-          ],
-          apiKey,
-          MODELS.judge,
-        );
+          // Format verification
+          log(`Formatting...`);
 
-        log(`  ${formattedExamMd.length.toLocaleString()} chars`);
+          formattedExamMd = await callLlm(
+            [
+              { role: "system", content: FORMAT_SYSTEM_PROMPT },
+              {
+                role: "user",
+                content: `Please verify and correct the formatting of the following exam.md content:\n\n${examMd}`,
+              },
+            ],
+            apiKey,
+            "format",
+            { ...llm, stream: true, retry: LONG_CALL_RETRY },
+          );
 
-        const finalExamMd = normalizeExamMetadataAndTags(formattedExamMd);
-        if (finalExamMd !== formattedExamMd) {
-          log("  normalized tags/metadata");
+          log(`  ${formattedExamMd.length.toLocaleString()} chars`);
         }
 
-        assertIntegerPoints(finalExamMd);
-        assertNonEmptyAnswers(finalExamMd);
-
-        // Extract exam_id from generated content if not provided
-        let finalExamId = examId;
-        if (!finalExamId) {
-          const match = finalExamMd.match(/"exam_id"\s*:\s*"([^"]+)"/);
-          if (match) {
-            finalExamId = match[1];
-          } else {
-            finalExamId = `exam_${Date.now()}`;
-          }
+        const normalizedExamMd = normalizeExamMetadataAndTags(formattedExamMd);
+        if (normalizedExamMd !== formattedExamMd) {
+          log("  normalized tags/metadata");
         }
-        log(`ID: ${finalExamId}`);
 
-        const examNameMatch = finalExamMd.match(
-          /"test_paper_name"\s*:\s*"([^"]+)"/,
+        log(`Checking self-containment...`);
+        const selfContained = await fixDanglingReferences(
+          normalizedExamMd,
+          examText,
+          apiKey,
+          llm,
         );
-        const courseMatch = finalExamMd.match(/"course"\s*:\s*"([^"]+)"/);
-        const yearMatch = finalExamMd.match(/"year"\s*:\s*(\d+)/);
-
-        let branchName = finalExamId.replace(/_/g, "-");
-        if (
-          !branchName ||
-          branchName === `exam-${Date.now()}`.replace(/_/g, "-")
-        ) {
-          const coursePart = courseMatch
-            ? courseMatch[1].toLowerCase().replace(/\s+/g, "")
-            : "exam";
-          const yearPart = yearMatch ? yearMatch[1] : new Date().getFullYear();
-          const typePart = finalExamId.includes("final")
-            ? "final"
-            : finalExamId.includes("midterm")
-              ? "midterm"
-              : "exam";
-          branchName = `${coursePart}-${yearPart}-${typePart}`;
+        if (selfContained.fixed.length > 0) {
+          log(`  copied shared context into ${selfContained.fixed.map((id) => `Q${id}`).join(", ")}`);
         }
-
-        const examTitle = (examNameMatch ? examNameMatch[1] : finalExamId)
-          .replace(/[()]/g, "")
-          .replace(/"/g, "'");
-
-        const jobDir = await fs.mkdtemp(path.join(os.tmpdir(), "sib-exam-"));
-        const inputDir = path.join(jobDir, "input");
-        await fs.mkdir(inputDir, { recursive: true });
-
-        try {
-          log(`Staging files...`);
-          await fs.writeFile(
-            path.join(inputDir, "exam.md"),
-            finalExamMd,
-            "utf-8",
-          );
-
-          const fileNames = ["exam.md"];
-          const solutionsPath = path.join(inputDir, solutionsFile.name);
-          const solutionsContent = Buffer.from(
-            await solutionsFile.arrayBuffer(),
+        log(`  ${selfContained.issues.length} dangling reference(s)`);
+        formatExamIssues(selfContained.issues).forEach((line) => log(`  ${line}`));
+
+        log(`Checking schema...`);
+        const leakCheck = getLeakCheckMode();
+        const leakSources = { examText, solutionsText };
+        const repair = await repairExamMd(selfContained.examMd, apiKey, {
+          ...llm,
+          validate: (document) => [
+            ...validateExamDocument(document),
+            ...validateExactMatchChoices(document),
+            ...validateRubricPoints(document),
+            ...(leakCheck === "repair" ? findAnswerLeaks(document, leakSources) : []),
+          ],
+        });
+        if (repair.issues.length > 0) {
+          formatExamIssues(repair.issues).forEach((line) => log(`  ${line}`));
+          const openProblems = [
+            ...new Set(repair.issues.map((issue) => issue.problemId ?? "metadata")),
+          ];
+          throw new Error(
+            `exam.md still has ${repair.issues.length} issue(s) after ${repair.attempts} repair attempt(s): ${openProblems.join(", ")}`,
           );
-          await fs.writeFile(solutionsPath, solutionsContent);
-          fileNames.push(solutionsFile.name);
-
-          for (const refFile of referenceFiles) {
-            const refPath = path.join(inputDir, refFile.name);
-            const refContent = Buffer.from(await refFile.arrayBuffer());
-            await fs.writeFile(refPath, refContent);
-            fileNames.push(refFile.name);
-          }
-          log(`  ${fileNames.join(", ")}`);
-
-          log(`Running Docker worker...`);
-          await runDockerJob({
-            image: dockerImage,
-            jobDir,
-            env: {
-              JOB_DIR: "/job",
-              REPO_URL: repoUrl,
-              EXAM_ID: finalExamId,
-              BRANCH_NAME: branchName,
-              GITHUB_USERNAME: githubUsername,
-              GITHUB_TOKEN: githubToken,
-              COMMIT_TITLE: `add ${examTitle}`,
-            },
-            log,
-            redact: [githubToken],
-          });
-        } finally {
-          try {
-            await fs.rm(jobDir, { recursive: true, force: true });
-          } catch {}
+        }
+        const finalExamMd = repair.examMd;
+        const examDocument = repair.document;
+        log(`  ${examDocument.questions.length} question(s) OK`);
+        formatExamIssues([
+          ...findExactMatchWarnings(examDocument),
+          ...findRubricWarnings(examDocument),
+        ]).forEach((line) => log(`  warning: ${line}`));
+
+        if (leakCheck === "warn") {
+          log(`Checking for answer leaks...`);
+          const leaks = findAnswerLeaks(examDocument, leakSources);
+          log(`  ${leaks.length} likely leak(s)`);
+          formatExamIssues(leaks).forEach((line) => log(`  ${line}`));
         }
 
-        log(`Creating pull request...`);
-        try {
-          const prTitle = await buildPullRequestTitle({
-            apiKey,
-            examId: finalExamId,
-            examTitle,
-            course: courseMatch?.[1],
-            year: yearMatch?.[1],
+        log(`Checking answer grounding...`);
+        const grounding = await groundExamAnswers(examDocument, solutionsText, apiKey, llm);
+        formatGroundingLog(grounding).forEach((line) => log(`  ${line}`));
+
+        const solutionsDraftFile = {
+          name: solutionsFile.name,
+          data: Buffer.from(await solutionsFile.arrayBuffer()),
+        };
+        const referenceDraftFiles = await Promise.all(
+          referenceFiles.map(async (refFile) => ({
+            name: refFile.name,
+            data: Buffer.from(await refFile.arrayBuffer()),
+          })),
+        );
+
+        let status: "draft" | "success";
+        let details: Record<string, unknown>;
+        if (draftMode) {
+          const draft = await saveExamDraft({
+            examId: examId || undefined,
+            examMd: finalExamMd,
+            examFileName: examFile.name,
+            examText,
+            solutionsText,
+            solutionsFile: solutionsDraftFile,
+            referenceFiles: referenceDraftFiles,
+            figures,
+            grounding,
           });
-          const prBody = await buildPullRequestBody({
+          finalExamId =
+            examId || getMetadataString(examDocument, "exam_id") || undefined;
+          log(`Draft saved: ${draft.jobId}`);
+          status = "draft";
+          details = { jobId: draft.jobId, examMd: finalExamMd };
+        } else {
+          const published = await publishExam({
             apiKey,
-            examTitle,
-            examId: finalExamId,
-            examDir: `benchmarks/courseexam_bench/data/raw/${finalExamId}`,
-            solutionFileName: solutionsFile.name,
-            referenceFileNames: referenceFiles.map((refFile) => refFile.name),
-          });
-          const prUrl = await createOrGetPullRequest({
+            examMd: finalExamMd,
+            document: examDocument,
+            examId: examId || undefined,
+            examFileName: examFile.name,
+            examText,
+            solutionsText,
+            solutionsFile: solutionsDraftFile,
+            referenceFiles: referenceDraftFiles,
+            figures,
+            grounding,
             githubUsername,
             githubToken,
-            branchName,
-            title: prTitle,
-            body: prBody,
+            docker:
+              replay || !dockerImage || !repoUrl
+                ? null
+                : { image: dockerImage, repoUrl },
+            llm,
           });
-          log(`  ${prUrl}`);
-        } catch (error: unknown) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          throw new Error(`Failed to create pull request: ${errorMsg}`);
+          finalExamId = published.examId;
+          status = "success";
+          details = { prUrl: published.prUrl };
         }
 
         const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
         log(`Done in ${elapsed}s`);
 
+        const usageSummary = usage.summary();
+        formatUsageSummary(usageSummary).forEach((line) => log(line));
+        log(
+          formatJobResult({
+            status,
+            examId: finalExamId,
+            ...details,
+            usage: usageSummary,
+          }),
+        );
+
         controller.close();
       } catch (error) {
+        if (signal.aborted) {
+          console.log(`Exam job ${finalExamId ?? "(unnamed)"} cancelled: ${error}`);
+          return;
+        }
         log(`\nError: ${error}`);
+        const usageSummary = usage.summary();
+        formatUsageSummary(usageSummary).forEach((line) => log(line));
+        log(
+          formatJobResult({
+            status: "error",
+            examId: finalExamId,
+            error: String(error),
+            usage: usageSummary,
+          }),
+        );
         controller.close();
       }
       },
+      cancel(reason) {
+        abortController.abort(
+          new Error(`Client disconnected${reason ? `: ${reason}` : ""}`),
+        );
+      },
     });
 
     return new Response(stream, {
@@ -0,0 +1,245 @@
+import type { APIRoute } from "astro";
+import { deleteExamDraft, loadExamDraft } from "../../../lib/exam-drafts";
+import { normalizeExamMetadataAndTags } from "../../../lib/exam-checks";
+import { formatGroundingLog, groundExamAnswers } from "../../../lib/exam-grounding";
+import {
+  findExactMatchWarnings,
+  validateExactMatchChoices,
+} from "../../../lib/exam-exact-match";
+import { findAnswerLeaks, getLeakCheckMode } from "../../../lib/exam-leakage";
+import { findRubricWarnings, validateRubricPoints } from "../../../lib/exam-rubric";
+import { findDanglingReferences } from "../../../lib/exam-self-containment";
+import { parseExamMd } from "../../../lib/exam-md";
+import { publishExam } from "../../../lib/exam-publish";
+import {
+  formatExamIssues,
+  validateExamDocument,
+} from "../../../lib/exam-schema";
+import { isHttpReplay } from "../../../lib/http-fixtures";
+import { formatJobResult } from "../../../lib/job-result";
+import {
+  getLlmApiKey,
+  getLlmApiKeyEnv,
+  type LlmJobOptions,
+} from "../../../lib/llm-client";
+import { checkRateLimit } from "../../../lib/rate-limit";
+import {
+  createUsageTracker,
+  formatUsageSummary,
+} from "../../../lib/usage-tracker";
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const clientIp = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+    const { allowed, retryAfter } = checkRateLimit(clientIp, 60_000, 5);
+    if (!allowed) {
+      return new Response(JSON.stringify({ error: "Too many requests" }), {
+        status: 429,
+        headers: {
+          "Content-Type": "application/json",
+          "Retry-After": String(retryAfter),
+        },
+      });
+    }
+
+    const formData = await request.formData();
+
+    const jobId = formData.get("jobId") as string;
+    const editedExamMd = formData.get("examMd") as string;
+    const noCache = formData.get("noCache") === "true";
+    const apiKey = getLlmApiKey();
+    const githubUsername = formData.get("githubUsername") as string;
+    const githubToken = formData.get("githubToken") as string;
+    const dockerImage = process.env.SIB_WORKER_IMAGE;
+    const repoUrl = process.env.SIB_REPO_URL;
+    const replay = isHttpReplay();
+
+    if (!apiKey) {
+      return new Response(
+        JSON.stringify({
+          error: `Server misconfigured: ${getLlmApiKeyEnv()} is required`,
+        }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    if (!githubUsername || !githubToken) {
+      return new Response(
+        JSON.stringify({ error: "GitHub username and token are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    if (!replay && (!dockerImage || !repoUrl)) {
+      return new Response(
+        JSON.stringify({
+          error: "Server misconfigured: SIB_WORKER_IMAGE and SIB_REPO_URL are required",
+        }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    if (!jobId || !editedExamMd) {
+      return new Response(JSON.stringify({ error: "Job ID and exam.md are required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const draft = await loadExamDraft(jobId);
+    if (!draft) {
+      return new Response(
+        JSON.stringify({ error: `Draft ${jobId} not found or expired` }),
+        { status: 404, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    const abortController = new AbortController();
+    const { signal } = abortController;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const startTime = Date.now();
+        const usage = createUsageTracker();
+        const log = (msg: string) => {
+          if (signal.aborted) return;
+          controller.enqueue(encoder.encode(msg + "\n"));
+        };
+        const llm: LlmJobOptions = {
+          onLog: log,
+          usage,
+          cache: !noCache,
+          signal,
+        };
+        let finalExamId: string | undefined = draft.examId;
+
+        try {
+          // The draft may have been edited by hand, so it is checked again in full.
+          log(`Checking schema...`);
+          const submittedExamMd = editedExamMd.replace(/\r\n/g, "\n");
+          const examMd = normalizeExamMetadataAndTags(submittedExamMd);
+          if (examMd !== submittedExamMd) {
+            log("  normalized tags/metadata");
+          }
+          const examDocument = parseExamMd(examMd);
+          const leakCheck = getLeakCheckMode();
+          // In repair mode leaks block the process job, so a hand edit must not let one through.
+          const issues = [
+            ...validateExamDocument(examDocument),
+            ...validateExactMatchChoices(examDocument),
+            ...validateRubricPoints(examDocument),
+            ...(leakCheck === "repair" ? findAnswerLeaks(examDocument, draft) : []),
+          ];
+          if (issues.length > 0) {
+            formatExamIssues(issues).forEach((line) => log(`  ${line}`));
+            throw new Error(
+              `exam.md has ${issues.length} issue(s); fix them and publish again`,
+            );
+          }
+          log(`  ${examDocument.questions.length} question(s) OK`);
+          formatExamIssues([
+            ...findExactMatchWarnings(examDocument),
+            ...findRubricWarnings(examDocument),
+          ]).forEach((line) => log(`  warning: ${line}`));
+
+          // The reviewer has seen the draft, so these are reported but never block publishing.
+          log(`Checking self-containment...`);
+          const danglingReferences = findDanglingReferences(examDocument);
+          log(`  ${danglingReferences.length} dangling reference(s)`);
+          formatExamIssues(danglingReferences).forEach((line) => log(`  ${line}`));
+
+          if (leakCheck === "warn") {
+            log(`Checking for answer leaks...`);
+            const leaks = findAnswerLeaks(examDocument, draft);
+            log(`  ${leaks.length} likely leak(s)`);
+            formatExamIssues(leaks).forEach((line) => log(`  ${line}`));
+          }
+
+          log(`Checking answer grounding...`);
+          // Only answers edited since the draft was saved are checked again.
+          const grounding = await groundExamAnswers(
+            examDocument,
+            draft.solutionsText,
+            apiKey,
+            { ...llm, known: draft.grounding },
+          );
+          formatGroundingLog(grounding).forEach((line) => log(`  ${line}`));
+
+          const published = await publishExam({
+            apiKey,
+            examMd,
+            document: examDocument,
+            examId: draft.examId,
+            examFileName: draft.examFileName,
+            examText: draft.examText,
+            solutionsText: draft.solutionsText,
+            solutionsFile: draft.solutionsFile,
+            referenceFiles: draft.referenceFiles,
+            figures: draft.figures,
+            grounding,
+            githubUsername,
+            githubToken,
+            docker:
+              replay || !dockerImage || !repoUrl
+                ? null
+                : { image: dockerImage, repoUrl },
+            llm,
+          });
+          finalExamId = published.examId;
+          await deleteExamDraft(jobId);
+
+          const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+          log(`Done in ${elapsed}s`);
+
+          const usageSummary = usage.summary();
+          formatUsageSummary(usageSummary).forEach((line) => log(line));
+          log(
+            formatJobResult({
+              status: "success",
+              examId: finalExamId,
+              prUrl: published.prUrl,
+              usage: usageSummary,
+            }),
+          );
+
+          controller.close();
+        } catch (error) {
+          if (signal.aborted) {
+            console.log(`Publish job ${finalExamId ?? jobId} cancelled: ${error}`);
+            return;
+          }
+          log(`\nError: ${error}`);
+          const usageSummary = usage.summary();
+          formatUsageSummary(usageSummary).forEach((line) => log(line));
+          log(
+            formatJobResult({
+              status: "error",
+              examId: finalExamId,
+              error: String(error),
+              usage: usageSummary,
+            }),
+          );
+          controller.close();
+        }
+      },
+      cancel(reason) {
+        abortController.abort(
+          new Error(`Client disconnected${reason ? `: ${reason}` : ""}`),
+        );
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Transfer-Encoding": "chunked",
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: String(error) }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,6 +1,12 @@
 import type { APIRoute } from "astro";
-import { callAnthropic, MODELS } from "../../../lib/anthropic-client";
+import { getLlmApiKey, getLlmApiKeyEnv } from "../../../lib/llm-client";
+import { LlmApiError } from "../../../lib/llm-provider";
+import type { JsonSchema } from "../../../lib/json-schema";
 import { checkRateLimit } from "../../../lib/rate-limit";
+import {
+  callLlmStructured,
+  StructuredOutputError,
+} from "../../../lib/structured-output";
 
 const SORT_SYSTEM_PROMPT = `You are an expert at analyzing exam file names and organizing them for processing.
 
@@ -46,8 +52,50 @@ Rules:
 - If ALL files have "sol", "soln", "solution", or "answers" in the name, treat them ALL as combined Q&A files
 - For combined files, exam_file and solutions_file should be THE SAME file
 - inferred_name: Extract semester, year, and exam type (e.g., "Fall 2018 Midterm", "Winter 2019 Final")
+- List any files you cannot place in "unmatched"
+
+Return the grouping by calling the record_exam_groups tool.`;
+
+interface ExamGrouping {
+  exams: Array<{
+    exam_file: string;
+    solutions_file: string;
+    reference_files: string[];
+    inferred_name: string;
+  }>;
+  unmatched?: string[];
+}
 
-Output ONLY valid JSON, no explanations.`;
+function buildExamGroupingSchema(fileNames: string[]): JsonSchema {
+  const fileName: JsonSchema = { type: "string", enum: fileNames };
+  return {
+    type: "object",
+    properties: {
+      exams: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            exam_file: fileName,
+            solutions_file: fileName,
+            reference_files: { type: "array", items: fileName },
+            inferred_name: { type: "string", minLength: 1 },
+          },
+          required: [
+            "exam_file",
+            "solutions_file",
+            "reference_files",
+            "inferred_name",
+          ],
+          additionalProperties: false,
+        },
+      },
+      unmatched: { type: "array", items: fileName },
+    },
+    required: ["exams"],
+    additionalProperties: false,
+  };
+}
 
 export const POST: APIRoute = async ({ request }) => {
   const clientIp = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
@@ -62,12 +110,12 @@ export const POST: APIRoute = async ({ request }) => {
   try {
     const body = await request.json();
     const fileNames = body?.fileNames;
-    const apiKey = process.env.ANTHROPIC_API_KEY;
+    const apiKey = getLlmApiKey();
 
     if (!apiKey) {
       return new Response(
         JSON.stringify({
-          error: "Server misconfigured: ANTHROPIC_API_KEY is required",
+          error: `Server misconfigured: ${getLlmApiKeyEnv()} is required`,
         }),
         { status: 500, headers: { "Content-Type": "application/json" } },
       );
@@ -82,28 +130,47 @@ export const POST: APIRoute = async ({ request }) => {
 
     const userPrompt = `Here are the uploaded file names:\n${fileNames.map((f: string, i: number) => `${i + 1}. ${f}`).join("\n")}\n\nPlease analyze these files and group them into exam/solution pairs.`;
 
-    const response = await callAnthropic(
-      [
-        { role: "system", content: SORT_SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      apiKey,
-      MODELS.judge,
-    );
-
-    let result;
+    let result: ExamGrouping;
     try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        result = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error("No JSON found in response");
-      }
-    } catch {
-      return new Response(
-        JSON.stringify({ error: "Failed to parse AI response", raw: response }),
-        { status: 500, headers: { "Content-Type": "application/json" } },
+      result = await callLlmStructured<ExamGrouping>(
+        [
+          { role: "system", content: SORT_SYSTEM_PROMPT },
+          { role: "user", content: userPrompt },
+        ],
+        apiKey,
+        "sortFiles",
+        {
+          toolName: "record_exam_groups",
+          description:
+            "Record how the uploaded files group into exams (exam, solutions and reference files).",
+          schema: buildExamGroupingSchema(fileNames),
+        },
+        // The UI blocks on this request, so fail fast instead of waiting out long overloads.
+        { retry: { maxRetries: 2, maxDelayMs: 10_000 } },
       );
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        return new Response(
+          JSON.stringify({ error: `Failed to parse AI response: ${error.message}` }),
+          { status: 500, headers: { "Content-Type": "application/json" } },
+        );
+      }
+      if (error instanceof LlmApiError) {
+        return new Response(
+          JSON.stringify({ error: `AI request failed: ${error.message}` }),
+          {
+            // Errors reported mid-stream carry no status of their own.
+            status: error.status ?? 502,
+            headers: {
+              "Content-Type": "application/json",
+              ...(error.retryAfterMs !== undefined
+                ? { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) }
+                : {}),
+            },
+          },
+        );
+      }
+      throw error;
     }
 
     return new Response(JSON.stringify(result), {
@@ -1,5 +1,11 @@
 import type { APIRoute } from "astro";
 import { checkRateLimit } from "../../../lib/rate-limit";
+import { getLlmApiKey, getLlmApiKeyEnv } from "../../../lib/llm-client";
+import { formatJobResult } from "../../../lib/job-result";
+import {
+  createUsageTracker,
+  formatUsageSummary,
+} from "../../../lib/usage-tracker";
 import {
   analyzeLabWithOpenAI,
   type LabAnalysisResult,
@@ -37,6 +43,7 @@ interface LabRequest {
   repoPath?: string;
   githubUsername?: string;
   githubToken?: string;
+  noCache?: boolean;
 }
 
 export const POST: APIRoute = async ({ request }) => {
@@ -50,14 +57,19 @@ export const POST: APIRoute = async ({ request }) => {
   }
 
   const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  const { signal } = abortController;
 
   const stream = new ReadableStream({
     async start(controller) {
       const log = (msg: string) => {
+        if (signal.aborted) return;
         controller.enqueue(encoder.encode(msg + "\n"));
       };
 
       let tempDir: string | null = null;
+      let resultCourseId: string | undefined;
+      const usage = createUsageTracker();
 
       try {
         const data = (await request.json()) as LabRequest;
@@ -70,7 +82,7 @@ export const POST: APIRoute = async ({ request }) => {
           githubToken,
         } = data;
         let { courseId, courseName, institution, year, tags } = data;
-        const apiKey = data.apiKey || process.env.ANTHROPIC_API_KEY;
+        const apiKey = data.apiKey || getLlmApiKey();
         const courseLabPath = getLabPath(repoPath);
         const coursesJsonPath = getCoursesJsonPath(repoPath);
 
@@ -79,7 +91,7 @@ export const POST: APIRoute = async ({ request }) => {
 
         if (!apiKey) {
           log(
-            "ERROR: No Anthropic API key provided. Set ANTHROPIC_API_KEY environment variable or enter it in the UI.",
+            `ERROR: No LLM API key provided. Set ${getLlmApiKeyEnv()} environment variable or enter it in the UI.`,
           );
           controller.close();
           return;
@@ -92,7 +104,7 @@ export const POST: APIRoute = async ({ request }) => {
         log(`[1/${totalSteps}] Cloning repository: ${repoUrl}`);
         log(`  -> Target: ${tempDir}`);
 
-        const git = simpleGit();
+        const git = simpleGit({ abort: signal });
         const cloneOptions = ["--depth", "1"];
         if (branch) {
           cloneOptions.push("--branch", branch);
@@ -114,12 +126,14 @@ export const POST: APIRoute = async ({ request }) => {
           notes,
           apiKey,
           log,
+          { usage, cache: !data.noCache, signal },
         );
 
         courseId = courseId || analysis.course_metadata.course_id;
         courseName = courseName || analysis.course_metadata.name;
         institution = institution || analysis.course_metadata.institution;
         year = year || analysis.course_metadata.year;
+        resultCourseId = courseId;
 
         log(`  -> Course ID: ${courseId}`);
         log(`  -> Course Name: ${courseName}`);
@@ -127,6 +141,7 @@ export const POST: APIRoute = async ({ request }) => {
         log(`  -> Year: ${year}`);
         log(`  -> Found ${analysis.tasks.length} task(s)`);
 
+        signal.throwIfAborted();
         log(`[3/${totalSteps}] Creating course directory structure...`);
         log(`  -> Using repo path: ${courseLabPath}`);
         const courseDir = path.join(courseLabPath, courseId);
@@ -135,6 +150,7 @@ export const POST: APIRoute = async ({ request }) => {
         log(`[4/${totalSteps}] Generating task files...`);
 
         for (const task of analysis.tasks) {
+          signal.throwIfAborted();
           const taskDir = path.join(courseDir, task.task_id);
           await fs.mkdir(taskDir, { recursive: true });
           log(`  -> Creating ${task.task_id}/`);
@@ -184,9 +200,10 @@ export const POST: APIRoute = async ({ request }) => {
 
           // Copy starter files from cloned repo
           log(`     - Copying starter files...`);
-          await copyStarterFiles(tempDir, taskDir, task.artifacts);
+          await copyStarterFiles(tempDir, taskDir, task.artifacts, signal);
         }
 
+        signal.throwIfAborted();
         log(`[5/${totalSteps}] Updating courses.json...`);
         await updateCoursesJson(
           courseId,
@@ -213,14 +230,16 @@ export const POST: APIRoute = async ({ request }) => {
           try {
             process.chdir(repoPath);
 
-            await execAsync(`git fetch origin main`);
-            await execAsync(`git checkout -b ${branchName} origin/main`);
+            await execAsync(`git fetch origin main`, { signal });
+            await execAsync(`git checkout -b ${branchName} origin/main`, {
+              signal,
+            });
             log(`  -> Branch created: ${branchName}`);
           } catch (error: unknown) {
             const errorMsg =
               error instanceof Error ? error.message : String(error);
-            if (errorMsg.includes("already exists")) {
-              await execAsync(`git checkout ${branchName}`);
+            if (!signal.aborted && errorMsg.includes("already exists")) {
+              await execAsync(`git checkout ${branchName}`, { signal });
               log(`  -> Branch already exists, checked out: ${branchName}`);
             } else {
               throw error;
@@ -229,14 +248,18 @@ export const POST: APIRoute = async ({ request }) => {
 
           log(`[8/${totalSteps}] Committing and pushing to GitHub...`);
           try {
-            await execAsync(`git add "${courseDir}"`);
+            await execAsync(`git add "${courseDir}"`, { signal });
 
-            await execAsync(`git add "${coursesJsonPath}"`);
+            await execAsync(`git add "${coursesJsonPath}"`, { signal });
 
-            await execAsync(`git commit -m "add \\"${labTitle}\\" lab"`);
+            await execAsync(`git commit -m "add \\"${labTitle}\\" lab"`, {
+              signal,
+            });
             log(`  -> Committed: add "${labTitle}" lab`);
 
-            await execAsync(`git push "${remoteUrl}" ${branchName}`);
+            await execAsync(`git push "${remoteUrl}" ${branchName}`, {
+              signal,
+            });
             log(`  -> Pushed to origin/${branchName}`);
 
             await execAsync(`git checkout main`);
@@ -267,9 +290,39 @@ export const POST: APIRoute = async ({ request }) => {
           log(`4. Commit your changes to the repository`);
         }
 
+        const usageSummary = usage.summary();
+        log("");
+        formatUsageSummary(usageSummary).forEach((line) => log(line));
+        log(
+          formatJobResult({
+            status: "success",
+            courseId,
+            tasks: analysis.tasks.map((t) => t.task_id),
+            usage: usageSummary,
+          }),
+        );
+
         controller.close();
       } catch (error) {
+        if (signal.aborted) {
+          console.log(`Lab job ${resultCourseId ?? "(unnamed)"} cancelled: ${error}`);
+          if (tempDir) {
+            await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+          }
+          return;
+        }
+
         log(`\nERROR: ${error}`);
+        const usageSummary = usage.summary();
+        formatUsageSummary(usageSummary).forEach((line) => log(line));
+        log(
+          formatJobResult({
+            status: "error",
+            courseId: resultCourseId,
+            error: String(error),
+            usage: usageSummary,
+          }),
+        );
 
         if (tempDir) {
           try {
@@ -282,6 +335,11 @@ export const POST: APIRoute = async ({ request }) => {
         controller.close();
       }
     },
+    cancel(reason) {
+      abortController.abort(
+        new Error(`Client disconnected${reason ? `: ${reason}` : ""}`),
+      );
+    },
   });
 
   return new Response(stream, {
@@ -355,6 +413,7 @@ async function copyStarterFiles(
   sourceDir: string,
   taskDir: string,
   artifacts: string[],
+  signal: AbortSignal,
 ): Promise<void> {
   const starterDir = path.join(taskDir, "starter");
   await fs.mkdir(starterDir, { recursive: true });
@@ -378,6 +437,7 @@ async function copyStarterFiles(
       await fs.mkdir(dest, { recursive: true });
 
       for (const entry of entries) {
+        signal.throwIfAborted();
         if (excludePatterns.includes(entry.name)) continue;
 
         const srcPath = path.join(src, entry.name);
@@ -389,7 +449,8 @@ async function copyStarterFiles(
           await fs.copyFile(srcPath, destPath);
         }
       }
-    } catch {
+    } catch (error) {
+      if (signal.aborted) throw error;
       // Ignore copy errors for individual files
     }
   }